@@ -0,0 +1,121 @@
+/**
+ * Benchmark the similarity kernel on a 3k-tool catalog
+ * Compares the packed matrix layout used by MCPToolFilter with the previous
+ * layout: one Float32Array per tool in a Map, and a ScoredTool object
+ * allocated for every tool on every request. Both score the same vectors
+ * against the same query and return the same top-K tools.
+ *
+ * Runs offline on hash embeddings. Run with: npx ts-node examples/benchmark-similarity.ts
+ */
+
+import { PerformanceObserver } from 'node:perf_hooks';
+import { MCPServer, MCPTool, ScoredTool, HashEmbeddingProvider } from '../src';
+import { EmbeddingMatrix } from '../src/matrix';
+import { dotProduct, normalizeVector, partialSort } from '../src/utils';
+
+const SERVERS = 60;
+const TOOLS_PER_SERVER = 50;
+const DIMENSIONS = 384;
+const ITERATIONS = 500;
+const TOP_K = 20;
+
+const verbs = ['create', 'list', 'get', 'update', 'delete', 'search', 'export', 'share', 'archive', 'sync'];
+const nouns = ['email', 'event', 'issue', 'file', 'invoice', 'contact', 'message', 'report', 'deployment', 'ticket'];
+
+const servers: MCPServer[] = Array.from({ length: SERVERS }, (_, s) => ({
+  id: `server-${s}`,
+  name: `Server ${s}`,
+  tools: Array.from({ length: TOOLS_PER_SERVER }, (_, t) => ({
+    name: `${verbs[t % verbs.length]}_${nouns[(s + t) % nouns.length]}_${s}_${t}`,
+    description: `${verbs[t % verbs.length]} a ${nouns[(s + t) % nouns.length]} in workspace ${s}`,
+  })),
+}));
+
+const query = 'Find the latest invoice email from the billing team and share it';
+
+interface Entry {
+  serverId: string;
+  tool: MCPTool;
+}
+
+/**
+ * Measure time and garbage collection while running fn repeatedly
+ */
+async function measure(name: string, fn: () => Promise<unknown> | unknown) {
+  // Warm up so both variants are optimized by the JIT
+  for (let i = 0; i < 50; i++) await fn();
+
+  let gcCount = 0;
+  let gcTime = 0;
+  const observer = new PerformanceObserver(list => {
+    for (const entry of list.getEntries()) {
+      gcCount++;
+      gcTime += entry.duration;
+    }
+  });
+  observer.observe({ entryTypes: ['gc'] });
+
+  const start = performance.now();
+  for (let i = 0; i < ITERATIONS; i++) await fn();
+  const elapsed = performance.now() - start;
+
+  // GC entries are delivered asynchronously
+  await new Promise(resolve => setTimeout(resolve, 100));
+  observer.disconnect();
+
+  console.log(
+    `${name.padEnd(28)} ${(elapsed / ITERATIONS).toFixed(3)}ms/request   ` +
+    `${gcCount} GCs (${gcTime.toFixed(1)}ms)`
+  );
+}
+
+async function main() {
+  const provider = new HashEmbeddingProvider({ dimensions: DIMENSIONS });
+  const entries = servers.flatMap(server => server.tools.map(tool => ({ serverId: server.id, tool })));
+  const embeddings = (await provider.embedBatch(entries.map(entry => entry.tool.description)))
+    .map(embedding => normalizeVector(embedding));
+  const contextEmbedding = normalizeVector(await provider.embed(query));
+
+  console.log(`\n${entries.length} tools, ${DIMENSIONS} dimensions, ${ITERATIONS} requests\n`);
+
+  // Both layouts hold the same vectors and return the same top-K tools
+
+  // Previous layout
+  const toolEmbeddings = new Map<string, Float32Array>();
+  const toolMetadata = new Map<string, Entry>();
+  entries.forEach((entry, i) => {
+    const key = `${entry.serverId}::${entry.tool.name}`;
+    toolEmbeddings.set(key, embeddings[i]);
+    toolMetadata.set(key, entry);
+  });
+
+  // Packed layout used by MCPToolFilter
+  const matrix = new EmbeddingMatrix<Entry>();
+  entries.forEach((entry, i) => matrix.set(`${entry.serverId}::${entry.tool.name}`, embeddings[i], entry));
+  const scoreBuffer = new Float32Array(matrix.size);
+  const rows = Array.from({ length: matrix.size }, (_, row) => row);
+
+  await measure('Map + object per tool', () => {
+    const scores: ScoredTool[] = [];
+    for (const [key, embedding] of toolEmbeddings) {
+      const metadata = toolMetadata.get(key)!;
+      scores.push({
+        serverId: metadata.serverId,
+        toolName: metadata.tool.name,
+        tool: metadata.tool,
+        score: dotProduct(contextEmbedding, embedding),
+      });
+    }
+    return partialSort(scores, TOP_K, tool => tool.score);
+  });
+
+  await measure('Packed matrix', () => {
+    matrix.score(contextEmbedding, scoreBuffer);
+    return partialSort(rows, TOP_K, row => scoreBuffer[row]).map((row): ScoredTool => {
+      const { serverId, tool } = matrix.itemAt(row);
+      return { serverId, toolName: tool.name, tool, score: scoreBuffer[row] };
+    });
+  });
+}
+
+main().catch(console.error);
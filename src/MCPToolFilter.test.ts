@@ -2,7 +2,37 @@
  * Basic tests for MCPToolFilter
  */
 
-import { MCPToolFilter, MCPServer } from '../src';
+import {
+  MCPToolFilter,
+  MCPServer,
+  ChatMessage,
+  MCPToolFilterConfig,
+  HashEmbeddingProvider,
+  MemoryEmbeddingStore,
+  EmbeddingStoreKey,
+  EmbeddingValidationError,
+  FallbackEmbeddingProvider,
+  registerEmbeddingProvider,
+} from '../src';
+
+/**
+ * Offline hash embeddings, instrumented for tests
+ */
+class TestEmbeddingProvider extends HashEmbeddingProvider {
+  /** Inputs of every embedBatch call, for asserting what was (re-)embedded */
+  batches: string[][] = [];
+
+  async embed(text: string): Promise<Float32Array> {
+    // Simulate a little latency so embedding time is measurable
+    await new Promise(resolve => setTimeout(resolve, 5));
+    return super.embed(text);
+  }
+
+  async embedBatch(texts: string[]): Promise<Float32Array[]> {
+    this.batches.push(texts);
+    return super.embedBatch(texts);
+  }
+}
 
 // Mock servers for testing
 const mockServers: MCPServer[] = [
@@ -36,23 +66,11 @@ const mockServers: MCPServer[] = [
 describe('MCPToolFilter', () => {
   let filter: MCPToolFilter;
   
-  // Note: These tests require a real API key
-  // For CI/CD, you'd want to mock the embedding provider
-  const hasApiKey = !!process.env.OPENAI_API_KEY;
-  
   beforeAll(async () => {
-    if (!hasApiKey) {
-      console.log('Skipping tests - no OPENAI_API_KEY found');
-      return;
-    }
-    
     filter = new MCPToolFilter({
-      embedding: {
-        provider: 'openai',
-        apiKey: process.env.OPENAI_API_KEY!,
-        model: 'text-embedding-3-small',
-        dimensions: 512, // Smaller for faster tests
-      },
+      embedding: new TestEmbeddingProvider(),
+      // Hash embeddings score lower than semantic ones
+      defaultOptions: { minScore: 0.1 },
       debug: false,
     });
     
@@ -60,18 +78,14 @@ describe('MCPToolFilter', () => {
   });
   
   test('should initialize successfully', () => {
-    if (!hasApiKey) return;
-    
     expect(filter.isInitialized()).toBe(true);
     
     const stats = filter.getStats();
     expect(stats.toolCount).toBe(3);
-    expect(stats.embeddingDimensions).toBe(512);
+    expect(stats.embeddingDimensions).toBe(1024);
   });
   
   test('should filter tools from string input', async () => {
-    if (!hasApiKey) return;
-    
     const result = await filter.filter(
       "Can you search my emails for the project update?"
     );
@@ -82,8 +96,6 @@ describe('MCPToolFilter', () => {
   });
   
   test('should filter tools from chat messages', async () => {
-    if (!hasApiKey) return;
-    
     const result = await filter.filter([
       { role: 'user', content: 'What meetings do I have today?' },
     ]);
@@ -92,9 +104,21 @@ describe('MCPToolFilter', () => {
     expect(result.tools[0].toolName).toBe('calendar_list');
   });
   
+  test('should filter tools from content part arrays', async () => {
+    const result = await filter.filter([
+      {
+        role: 'user',
+        content: [
+          { type: 'image_url', image_url: { url: 'https://example.com/whiteboard.png' } },
+          { type: 'text', text: 'What meetings do I have today?' },
+        ],
+      },
+    ]);
+
+    expect(result.tools[0].toolName).toBe('calendar_list');
+  });
+
   test('should respect topK option', async () => {
-    if (!hasApiKey) return;
-    
     const result = await filter.filter(
       "Search the web for information",
       { topK: 1 }
@@ -104,8 +128,6 @@ describe('MCPToolFilter', () => {
   });
   
   test('should respect minScore option', async () => {
-    if (!hasApiKey) return;
-    
     const result = await filter.filter(
       "Search the web",
       { minScore: 0.8 } // Very high threshold
@@ -117,9 +139,20 @@ describe('MCPToolFilter', () => {
     });
   });
   
+  test('should keep the newest turn with the truncation option', async () => {
+    const messages = [
+      { role: 'user' as const, content: `Tell me about ${'the history of the calendar '.repeat(40)}` },
+      { role: 'user' as const, content: 'Actually, search my emails for the invoice.' },
+    ];
+
+    const head = await filter.filter(messages, { maxContextTokens: 20 });
+    const lastUser = await filter.filter(messages, { maxContextTokens: 20, truncation: 'lastUserMessage' });
+
+    expect(head.tools[0].toolName).toBe('calendar_list');
+    expect(lastUser.tools[0].toolName).toBe('email_search');
+  });
+
   test('should respect alwaysInclude option', async () => {
-    if (!hasApiKey) return;
-    
     const result = await filter.filter(
       "Search my emails",
       { 
@@ -134,8 +167,6 @@ describe('MCPToolFilter', () => {
   });
   
   test('should cache context embeddings', async () => {
-    if (!hasApiKey) return;
-    
     const input = "Check my calendar";
     
     // First call
@@ -151,11 +182,933 @@ describe('MCPToolFilter', () => {
   });
   
   test('should clear cache', async () => {
-    if (!hasApiKey) return;
-    
     filter.clearCache();
     
     const stats = filter.getStats();
     expect(stats.cacheSize).toBe(0);
   });
 });
+
+describe('MCPToolFilter incremental updates', () => {
+  let filter: MCPToolFilter;
+
+  beforeEach(async () => {
+    filter = new MCPToolFilter({
+      embedding: new TestEmbeddingProvider(),
+    });
+
+    await filter.initialize(mockServers);
+  });
+
+  test('should add and remove servers', async () => {
+    await filter.addServer({
+      id: 'files',
+      name: 'Files',
+      tools: [
+        { name: 'read_file', description: 'Read a file from the local filesystem.' },
+      ],
+    });
+    expect(filter.getStats().toolCount).toBe(4);
+
+    const result = await filter.filter('Open the file notes.txt and read it', { topK: 1 });
+    expect(result.tools[0].toolName).toBe('read_file');
+
+    expect(await filter.removeServer('files')).toBe(true);
+    expect(await filter.removeServer('files')).toBe(false);
+    expect(filter.getStats().toolCount).toBe(3);
+  });
+
+  test('should reject adding a server twice', async () => {
+    await expect(filter.addServer(mockServers[0])).rejects.toThrow('already exists');
+  });
+
+  test('should upsert and remove individual tools', async () => {
+    await filter.upsertTool('test-server', {
+      name: 'weather',
+      description: 'Get the weather forecast for a city.',
+    });
+    expect(filter.getStats().toolCount).toBe(4);
+
+    expect(await filter.removeTool('test-server', 'weather')).toBe(true);
+    expect(await filter.removeTool('test-server', 'weather')).toBe(false);
+    expect(filter.getStats().toolCount).toBe(3);
+  });
+
+  test('should only re-embed tools whose description changed', async () => {
+    const provider = new TestEmbeddingProvider();
+    filter = new MCPToolFilter({ embedding: provider });
+    await filter.initialize(mockServers);
+
+    await filter.updateServer({
+      ...mockServers[0],
+      tools: mockServers[0].tools.map(t =>
+        t.name === 'calendar_list' ? { ...t, description: 'List upcoming calendar events.' } : t
+      ),
+    });
+
+    expect(provider.batches).toHaveLength(2);
+    expect(provider.batches[1]).toHaveLength(1);
+    expect(provider.batches[1][0]).toContain('List upcoming calendar events.');
+  });
+
+  test('should drop tools missing from an updated server', async () => {
+    await filter.updateServer({
+      ...mockServers[0],
+      tools: mockServers[0].tools.filter(t => t.name !== 'web_search'),
+    });
+
+    const result = await filter.filter('Search the web', { minScore: 0 });
+    expect(result.tools.map(t => t.toolName)).not.toContain('web_search');
+  });
+  test('should score like a fresh index after removing a tool from the middle', async () => {
+    await filter.removeTool('test-server', 'email_search');
+
+    const fresh = new MCPToolFilter({ embedding: new TestEmbeddingProvider() });
+    await fresh.initialize([{
+      ...mockServers[0],
+      tools: mockServers[0].tools.filter(t => t.name !== 'email_search'),
+    }]);
+
+    const query = 'Check my calendar and search the web';
+    const expected = await fresh.filter(query, { minScore: 0 });
+    const result = await filter.filter(query, { minScore: 0 });
+    expect(result.tools.map(t => [t.toolName, t.score])).toEqual(expected.tools.map(t => [t.toolName, t.score]));
+  });
+});
+
+describe('MCPToolFilter index snapshots', () => {
+  const createFilter = () => new MCPToolFilter({
+    embedding: new TestEmbeddingProvider(),
+  });
+
+  test('should round-trip an exported index', async () => {
+    const source = createFilter();
+    await source.initialize(mockServers);
+    const snapshot = source.exportIndex();
+
+    expect(snapshot.tools).toHaveLength(3);
+    expect(snapshot.dimensions).toBe(1024);
+
+    const restored = createFilter();
+    await restored.importIndex(snapshot);
+
+    const result = await restored.filter('Can you search my emails for the project update?');
+    expect(result.tools[0].toolName).toBe('email_search');
+  });
+
+  test('should reject a snapshot with different dimensions', async () => {
+    const source = createFilter();
+    await source.initialize(mockServers);
+
+    const snapshot = { ...source.exportIndex(), dimensions: 256 };
+    await expect(createFilter().importIndex(snapshot)).rejects.toThrow('dimensions');
+  });
+
+  test('should reject a snapshot built with a different model', async () => {
+    const source = createFilter();
+    await source.initialize(mockServers);
+
+    const snapshot = { ...source.exportIndex(), model: 'text-embedding-3-small' };
+    await expect(createFilter().importIndex(snapshot)).rejects.toThrow('model');
+  });
+
+  test('should reject a snapshot built by a different provider with the same model name', async () => {
+    const source = createFilter();
+    await source.initialize(mockServers);
+
+    const snapshot = { ...source.exportIndex(), provider: 'http' };
+    await expect(createFilter().importIndex(snapshot)).rejects.toThrow('provider "http"');
+  });
+
+  test('should record the factory name of custom providers', async () => {
+    const providers = [new TestEmbeddingProvider(), new TestEmbeddingProvider()];
+    registerEmbeddingProvider('test-a', () => providers[0]);
+    registerEmbeddingProvider('test-b', () => providers[1]);
+    const embeddingStore = new MemoryEmbeddingStore();
+
+    const first = new MCPToolFilter({ embedding: { provider: 'custom', factory: 'test-a' }, embeddingStore });
+    await first.initialize(mockServers);
+    const second = new MCPToolFilter({ embedding: { provider: 'custom', factory: 'test-b' }, embeddingStore });
+    await second.initialize(mockServers);
+
+    expect(first.exportIndex().provider).toBe('custom:test-a');
+    expect(second.exportIndex().provider).toBe('custom:test-b');
+    // Same model, but the second factory's vectors are not served from the first one's keys
+    expect(providers[1].batches).toHaveLength(1);
+  });
+
+  test('should check the dimensions of providers that probe them', async () => {
+    class ProbingProvider extends TestEmbeddingProvider {
+      probes = 0;
+
+      async initialize(): Promise<void> {
+        this.probes++;
+      }
+    }
+    const source = createFilter();
+    await source.initialize(mockServers);
+    const snapshot = source.exportIndex();
+
+    const provider = new ProbingProvider();
+    const restored = new MCPToolFilter({ embedding: provider });
+    await restored.importIndex(snapshot);
+    const result = await restored.filter('Can you search my emails for the project update?');
+
+    expect(provider.probes).toBe(1);
+    expect(result.tools[0].toolName).toBe('email_search');
+
+    const mismatched = new MCPToolFilter({ embedding: new ProbingProvider({ dimensions: 256 }) });
+    await expect(mismatched.importIndex(snapshot)).rejects.toThrow('dimensions');
+    expect(mismatched.getStats()).toMatchObject({ initialized: false, toolCount: 0 });
+  });
+});
+
+describe('MCPToolFilter embedding store', () => {
+  test('should initialize a second filter from embeddings the first one stored', async () => {
+    const embeddingStore = new MemoryEmbeddingStore();
+    const first = new TestEmbeddingProvider();
+    await new MCPToolFilter({ embedding: first, embeddingStore }).initialize(mockServers);
+
+    const second = new TestEmbeddingProvider();
+    const filter = new MCPToolFilter({ embedding: second, embeddingStore });
+    await filter.initialize([...mockServers, {
+      id: 'weather-server',
+      name: 'Weather Server',
+      tools: [{ name: 'weather_forecast', description: 'Get the weather forecast for a city.' }],
+    }]);
+
+    // Only the tool the first filter never saw is embedded
+    expect(first.batches.map(batch => batch.length)).toEqual([3]);
+    expect(second.batches).toEqual([['Get the weather forecast for a city.']]);
+    expect(filter.getStats().embeddingStore).toEqual({ entries: 4, bytes: 4 * 1024 * 4, hits: 3, misses: 4 });
+
+    const result = await filter.filter('Can you search my emails for the project update?');
+    expect(result.tools[0].toolName).toBe('email_search');
+  });
+});
+
+describe('MCPToolFilter embedding validation', () => {
+  /**
+   * Hash embeddings that corrupt the vector of any text containing "calendar"
+   */
+  class CorruptingEmbeddingProvider extends HashEmbeddingProvider {
+    constructor(private corrupt: (vector: Float32Array) => Float32Array) {
+      super();
+    }
+
+    async embedBatch(texts: string[]): Promise<Float32Array[]> {
+      const vectors = await super.embedBatch(texts);
+      return vectors.map((vector, i) => texts[i].includes('calendar') ? this.corrupt(vector) : vector);
+    }
+  }
+
+  const initialize = async (corrupt: (vector: Float32Array) => Float32Array) => {
+    const filter = new MCPToolFilter({ embedding: new CorruptingEmbeddingProvider(corrupt) });
+    return filter.initialize(mockServers).then(() => undefined, error => error);
+  };
+
+  test.each([
+    ['dimensions', (vector: Float32Array) => vector.subarray(0, 512), '512 dimensions, expected 1024'],
+    ['non-finite', (vector: Float32Array) => vector.fill(NaN, 0, 1), 'NaN'],
+    ['zero', (vector: Float32Array) => vector.fill(0), 'all zeros'],
+  ])('should name the tool with a %s embedding', async (reason, corrupt, message) => {
+    const error = await initialize(corrupt);
+
+    expect(error).toBeInstanceOf(EmbeddingValidationError);
+    expect(error.reason).toBe(reason);
+    expect(error.subject).toEqual({ kind: 'tool', toolKey: 'test-server::calendar_list' });
+    expect(error.message).toContain('tool "test-server::calendar_list"');
+    expect(error.message).toContain(message);
+  });
+
+  test('should reject a provider that returns too few embeddings', async () => {
+    const provider = new HashEmbeddingProvider();
+    provider.embedBatch = async texts => (await new HashEmbeddingProvider().embedBatch(texts)).slice(1);
+    const filter = new MCPToolFilter({ embedding: provider });
+
+    await expect(filter.initialize(mockServers)).rejects.toThrow('returned 2 embeddings for 3 texts');
+  });
+
+  test('should reject a wrong-length context embedding', async () => {
+    const provider = new HashEmbeddingProvider();
+    const filter = new MCPToolFilter({ embedding: provider });
+    await filter.initialize(mockServers);
+
+    provider.embed = async () => new Float32Array(8);
+    await expect(filter.filter('Search my email')).rejects.toThrow('Embedding for the context has 8 dimensions');
+  });
+});
+
+describe('MCPToolFilter degradation', () => {
+  const createFilter = async (degradation?: MCPToolFilterConfig['degradation']) => {
+    const provider = new HashEmbeddingProvider();
+    const filter = new MCPToolFilter({ embedding: provider, defaultOptions: { minScore: 0.1 }, degradation });
+    await filter.initialize(mockServers);
+    const fail = () => {
+      provider.embed = async () => {
+        throw new Error('embedding API unavailable');
+      };
+    };
+    return { filter, fail };
+  };
+
+  test('should reject without a degradation config', async () => {
+    const { filter, fail } = await createFilter();
+    fail();
+
+    await expect(filter.filter('Search my email')).rejects.toThrow('embedding API unavailable');
+  });
+
+  test("should return the session's last successful result", async () => {
+    const { filter, fail } = await createFilter({ strategies: ['lastResult'] });
+    const previous = await filter.filter('Search my email for the invoice', { sessionId: 'a' });
+    await filter.filter('What is on my calendar?', { sessionId: 'b' });
+    fail();
+
+    const result = await filter.filter('And the one from last week?', { sessionId: 'a' });
+
+    expect(previous.degraded).toBeUndefined();
+    expect(result.degraded).toBe(true);
+    expect(result.degradation?.strategy).toBe('lastResult');
+    expect(result.degradation?.cause.message).toBe('embedding API unavailable');
+    expect(result.tools).toEqual(previous.tools);
+  });
+
+  test('should not share last results between requests without a sessionId', async () => {
+    const { filter, fail } = await createFilter({ strategies: ['lastResult'] });
+    await filter.filter('Search my email for the invoice');
+    fail();
+
+    const result = await filter.filter('And the one from last week?');
+
+    expect(result.degradation?.strategy).toBe('none');
+    expect(result.tools).toEqual([]);
+  });
+
+  test('should rank by keywords and keep alwaysInclude tools', async () => {
+    const { filter, fail } = await createFilter({ strategies: ['lastResult', 'lexical'] });
+    fail();
+
+    const result = await filter.filter('Check the calendar for meetings', { alwaysInclude: ['web_search'] });
+
+    expect(result.degradation?.strategy).toBe('lexical');
+    expect(result.tools.map(t => t.toolName)).toEqual(['web_search', 'calendar_list']);
+    expect(result.tools[1].score).toBe(1);
+  });
+
+  test('should fall back to the configured default tools', async () => {
+    const { filter, fail } = await createFilter({ strategies: ['lexical', 'defaultTools'], defaultTools: ['email_search'] });
+    fail();
+
+    const result = await filter.filter('zzz');
+
+    expect(result.degradation?.strategy).toBe('defaultTools');
+    expect(result.tools.map(t => t.toolName)).toEqual(['email_search']);
+  });
+
+  test('should return no tools when no strategy has any', async () => {
+    const { filter, fail } = await createFilter({ strategies: ['lastResult'] });
+    fail();
+
+    const result = await filter.filter('Search my email');
+
+    expect(result.tools).toEqual([]);
+    expect(result.degradation?.strategy).toBe('none');
+  });
+});
+
+describe('MCPToolFilter fallback providers', () => {
+  // The backup embeds into a different space (256 instead of 1024 dimensions)
+  const createFilter = () => {
+    const primary = new TestEmbeddingProvider();
+    const backup = new TestEmbeddingProvider({ dimensions: 256 });
+    const embedding = new FallbackEmbeddingProvider([primary, backup], { failureThreshold: 1, cooldownMs: 50 });
+    const filter = new MCPToolFilter({ embedding, defaultOptions: { minScore: 0.1 } });
+    return { filter, primary, backup };
+  };
+
+  const fail = (provider: TestEmbeddingProvider) => {
+    provider.embed = provider.embedBatch = async () => {
+      throw new Error('primary down');
+    };
+  };
+
+  // Drop the failing overrides so the prototype methods apply again
+  const recover = (provider: TestEmbeddingProvider) => {
+    delete (provider as Partial<TestEmbeddingProvider>).embed;
+    delete (provider as Partial<TestEmbeddingProvider>).embedBatch;
+  };
+
+  test("should score the context against the backup's own tool embeddings", async () => {
+    const { filter, primary, backup } = createFilter();
+    await filter.initialize(mockServers);
+    expect((await filter.filter('Search my email')).metrics.providerIndex).toBe(0);
+    expect(backup.batches).toHaveLength(0);
+    fail(primary);
+
+    const result = await filter.filter('Search my email for messages');
+    await filter.filter('List my calendar meetings');
+
+    expect(result.metrics.providerIndex).toBe(1);
+    expect(result.tools[0].toolName).toBe('email_search');
+    // Synced once, on first use
+    expect(backup.batches).toHaveLength(1);
+  });
+
+  test('should resync the backup after the servers change', async () => {
+    const { filter, primary, backup } = createFilter();
+    await filter.initialize(mockServers);
+    primary.embed = async () => {
+      throw new Error('primary down');
+    };
+    await filter.filter('Search my email');
+
+    // Updates embed with the primary, so wait for its circuit to let a request through
+    await new Promise(resolve => setTimeout(resolve, 60));
+    await filter.addServer({
+      id: 'weather-server',
+      name: 'Weather Server',
+      tools: [{ name: 'weather_forecast', description: 'Get the weather forecast for a city.' }],
+    });
+    const result = await filter.filter('weather forecast for Paris');
+
+    expect(result.tools[0].toolName).toBe('weather_forecast');
+    // Unchanged tools are not embedded again
+    expect(backup.batches.map(batch => batch.length)).toEqual([3, 1]);
+  });
+
+  test('should initialize from a backup and recover the primary after the cooldown', async () => {
+    const { filter, primary } = createFilter();
+    fail(primary);
+
+    await filter.initialize(mockServers);
+    const degraded = await filter.filter('Search my email');
+
+    expect(filter.isInitialized()).toBe(true);
+    expect(degraded.metrics.providerIndex).toBe(1);
+    expect(degraded.tools[0].toolName).toBe('email_search');
+    expect(filter.getStats().fallback).toMatchObject({
+      primaryStale: true,
+      providers: [{ state: 'open' }, { state: 'closed' }],
+    });
+
+    recover(primary);
+    await new Promise(resolve => setTimeout(resolve, 60));
+    // The backup answers while the primary index is rebuilt in the background
+    const rebuilding = await filter.filter('Search my email');
+    expect(rebuilding.metrics.providerIndex).toBe(1);
+
+    while (filter.getStats().fallback?.primaryStale) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    const recovered = await filter.filter('Search my email');
+
+    expect(recovered.metrics.providerIndex).toBe(0);
+    expect(recovered.tools[0].toolName).toBe('email_search');
+    expect(filter.getStats()).toMatchObject({ toolCount: 3, fallback: { primaryStale: false } });
+  });
+
+  test('should import a snapshot into a backup when the primary fails', async () => {
+    const source = new MCPToolFilter({ embedding: new TestEmbeddingProvider() });
+    await source.initialize(mockServers);
+    const { filter, primary } = createFilter();
+    fail(primary);
+
+    // The new server's tool has to be embedded
+    await filter.importIndex(source.exportIndex(), [...mockServers, {
+      id: 'weather-server',
+      name: 'Weather Server',
+      tools: [{ name: 'weather_forecast', description: 'Get the weather forecast for a city.' }],
+    }]);
+    const result = await filter.filter('weather forecast for Paris');
+
+    expect(result.metrics.providerIndex).toBe(1);
+    expect(result.tools[0].toolName).toBe('weather_forecast');
+    expect(filter.getStats()).toMatchObject({ serverCount: mockServers.length + 1, fallback: { primaryStale: true } });
+  });
+
+  test('should not share store entries between chain members', async () => {
+    // Same model and dimensions: only the member's name tells their vectors apart
+    const primary = new TestEmbeddingProvider();
+    const backup = new TestEmbeddingProvider();
+    const filter = new MCPToolFilter({
+      embedding: new FallbackEmbeddingProvider([primary, backup], { failureThreshold: 1 }),
+      embeddingStore: new MemoryEmbeddingStore(),
+    });
+    await filter.initialize(mockServers);
+    fail(primary);
+
+    const result = await filter.filter('Search my email');
+
+    expect(result.metrics.providerIndex).toBe(1);
+    expect(backup.batches.map(batch => batch.length)).toEqual([3]);
+  });
+
+  test('should reject initialize when every provider fails', async () => {
+    const { filter, primary, backup } = createFilter();
+    fail(primary);
+    fail(backup);
+
+    await expect(filter.initialize(mockServers)).rejects.toThrow('primary down');
+    expect(filter.isInitialized()).toBe(false);
+  });
+});
+
+describe('MCPToolFilter hybrid search', () => {
+  /**
+   * Embeddings that cannot tell tools apart, so only lexical scores separate them
+   */
+  class BlurryEmbeddingProvider extends HashEmbeddingProvider {
+    async embed(): Promise<Float32Array> {
+      return new Float32Array([1, 1, 0]);
+    }
+
+    async embedBatch(texts: string[]): Promise<Float32Array[]> {
+      return texts.map(() => new Float32Array([1, 1, 0]));
+    }
+
+    getDimensions(): number {
+      return 3;
+    }
+  }
+
+  const issueServers: MCPServer[] = [
+    {
+      id: 'trackers',
+      name: 'Issue Trackers',
+      tools: [
+        { name: 'github_create_issue', description: 'Create an issue in a repository.' },
+        { name: 'jira_create_issue', description: 'Create a ticket in a project.' },
+        {
+          name: 'upload_object',
+          description: 'Upload a file to object storage.',
+          keywords: ['s3'],
+          inputSchema: { properties: { bucket: {}, key: {} } },
+        },
+      ],
+    },
+  ];
+
+  test.each(['weighted', 'rrf'] as const)('should surface exact identifiers with %s fusion', async fusion => {
+    const filter = new MCPToolFilter({
+      embedding: new BlurryEmbeddingProvider(),
+      hybridSearch: { fusion },
+    });
+    await filter.initialize(issueServers);
+
+    const jira = await filter.filter('Open a jira ticket for the login bug', { topK: 1 });
+    expect(jira.tools[0].toolName).toBe('jira_create_issue');
+    expect(jira.tools[0].semanticScore).toBeCloseTo(1);
+    expect(jira.tools[0].lexicalScore).toBeGreaterThan(0);
+
+    const s3 = await filter.filter('Put the report in the reports s3 bucket', { topK: 1 });
+    expect(s3.tools[0].toolName).toBe('upload_object');
+  });
+
+  test('should keep the lexical index in sync with incremental updates', async () => {
+    const filter = new MCPToolFilter({
+      embedding: new BlurryEmbeddingProvider(),
+      hybridSearch: {},
+    });
+    await filter.initialize(issueServers);
+
+    await filter.upsertTool('trackers', { name: 'linear_create_issue', description: 'Create an issue.' });
+    const added = await filter.filter('File this in linear', { topK: 1 });
+    expect(added.tools[0].toolName).toBe('linear_create_issue');
+
+    await filter.removeTool('trackers', 'linear_create_issue');
+    const removed = await filter.filter('File this in linear', { topK: 5 });
+    expect(removed.tools.map(t => t.toolName)).not.toContain('linear_create_issue');
+  });
+});
+
+describe('MCPToolFilter context modes', () => {
+  /**
+   * Hash embeddings that record every context text embedded
+   */
+  class RecordingProvider extends HashEmbeddingProvider {
+    contexts: string[] = [];
+
+    async embed(text: string): Promise<Float32Array> {
+      this.contexts.push(text);
+      return super.embed(text);
+    }
+  }
+
+  // An old, long calendar topic, then a short request about email
+  const conversation = [
+    { role: 'user' as const, content: `What meetings and events are on my calendar schedule? ${'Calendar meetings and appointments. '.repeat(8)}` },
+    { role: 'assistant' as const, content: 'You have three meetings today.' },
+    { role: 'user' as const, content: 'Search my emails from Bob.' },
+  ];
+
+  let provider: RecordingProvider;
+  let filter: MCPToolFilter;
+
+  beforeEach(async () => {
+    provider = new RecordingProvider();
+    filter = new MCPToolFilter({ embedding: provider, defaultOptions: { minScore: -1 } });
+    await filter.initialize(mockServers);
+  });
+
+  const scoreOf = (result: { tools: Array<{ toolName: string; score: number }> }, toolName: string) =>
+    result.tools.find(tool => tool.toolName === toolName)!.score;
+
+  test('should let the newest message outweigh an old topic', async () => {
+    const concatenated = await filter.filter(conversation);
+    const weighted = await filter.filter(conversation, { contextMode: 'weightedEmbedding' });
+
+    expect(concatenated.tools[0].toolName).toBe('calendar_list');
+    expect(concatenated.metrics.contextMode).toBe('concatenated');
+    expect(weighted.tools[0].toolName).toBe('email_search');
+    expect(weighted.metrics.contextMode).toBe('weightedEmbedding');
+  });
+
+  test('should aggregate per-message scores by weighted average or weighted max', async () => {
+    const contextWeights = { recencyDecay: 0.5, roleWeights: { assistant: 0 } };
+    const [first, last] = [conversation[0], conversation[2]];
+    const old = scoreOf(await filter.filter([first]), 'calendar_list');
+    const latest = scoreOf(await filter.filter([last]), 'calendar_list');
+
+    const weightedScore = await filter.filter(conversation, { contextMode: 'weightedScore', contextWeights });
+    const maxScore = await filter.filter(conversation, { contextMode: 'maxScore', contextWeights });
+
+    // The old message is two messages back: weight 0.25 against 1
+    expect(scoreOf(weightedScore, 'calendar_list')).toBeCloseTo((0.25 * old + latest) / 1.25, 5);
+    expect(scoreOf(maxScore, 'calendar_list')).toBeCloseTo(Math.max(0.25 * old, latest), 5);
+    expect(maxScore.metrics.contextMode).toBe('maxScore');
+  });
+
+  test('should embed each message once and skip messages that weigh nothing', async () => {
+    const options = { contextMode: 'weightedEmbedding' as const, contextWeights: { roleWeights: { assistant: 0 } } };
+    await filter.filter(conversation.slice(0, 2), options);
+    await filter.filter(conversation, options);
+
+    expect(provider.contexts.filter(text => text.startsWith('User:'))).toHaveLength(2);
+    expect(provider.contexts.some(text => text.startsWith('Assistant:'))).toBe(false);
+  });
+
+  test('should reject a recency decay outside (0, 1]', async () => {
+    await expect(filter.filter(conversation, { contextMode: 'maxScore', contextWeights: { recencyDecay: 0 } }))
+      .rejects.toThrow('recencyDecay');
+  });
+});
+
+describe('MCPToolFilter recent tool calls', () => {
+  const servers: MCPServer[] = [
+    {
+      id: 'github',
+      name: 'GitHub',
+      tools: [
+        { name: 'github_search_issues', description: 'Search issues in a repository.' },
+        { name: 'github_add_comment', description: 'Add a comment to an issue or pull request.' },
+      ],
+    },
+    {
+      id: 'slack',
+      name: 'Slack',
+      tools: [{ name: 'slack_post_message', description: 'Post a message with a comment to a channel.' }],
+    },
+  ];
+
+  // The follow-up request does not say where to comment
+  const conversation: ChatMessage[] = [
+    { role: 'user', content: 'Find the issue about the login bug' },
+    {
+      role: 'assistant',
+      content: null,
+      tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'github_search_issues', arguments: '{}' } }],
+    },
+    { role: 'tool', tool_call_id: 'call_1', content: '[{"number": 42, "title": "Login fails"}]' },
+    { role: 'user', content: 'Post a comment saying it is fixed' },
+  ];
+
+  let filter: MCPToolFilter;
+
+  beforeAll(async () => {
+    filter = new MCPToolFilter({ embedding: new HashEmbeddingProvider(), defaultOptions: { minScore: 0 } });
+    await filter.initialize(servers);
+  });
+
+  test('should boost follow-up tools on the server of a recent call', async () => {
+    const plain = await filter.filter(conversation, { contextMessages: 2 });
+    const boosted = await filter.filter(conversation, { contextMessages: 2, recentTools: { serverBoost: 0.1 } });
+    const scoreOf = (result: typeof plain, toolName: string) => result.tools.find(t => t.toolName === toolName)!.score;
+
+    expect(scoreOf(plain, 'slack_post_message')).toBeGreaterThan(scoreOf(plain, 'github_add_comment'));
+    expect(boosted.tools[0].toolName).toBe('github_add_comment');
+    expect(scoreOf(boosted, 'github_add_comment')).toBeCloseTo(scoreOf(plain, 'github_add_comment') + 0.1, 5);
+    // The called tool itself only gets the (default 0) boost
+    expect(scoreOf(boosted, 'github_search_issues')).toBeCloseTo(scoreOf(plain, 'github_search_issues'), 5);
+    expect(scoreOf(boosted, 'slack_post_message')).toBeCloseTo(scoreOf(plain, 'slack_post_message'), 5);
+  });
+
+  test('should keep recently called tools with sticky', async () => {
+    const result = await filter.filter(conversation, { topK: 2, minScore: 0.9, recentTools: { sticky: true } });
+
+    expect(result.tools.map(t => t.toolName)).toEqual(['github_search_issues']);
+  });
+});
+
+describe('MCPToolFilter hierarchical filtering', () => {
+  const servers: MCPServer[] = [
+    ...mockServers,
+    {
+      id: 'weather-server',
+      name: 'Weather',
+      description: 'Weather forecasts and conditions',
+      categories: ['weather'],
+      tools: [
+        { name: 'weather_forecast', description: 'Get the weather forecast for a city.' },
+        { name: 'weather_alerts', description: 'List severe weather alerts for a region.' },
+      ],
+    },
+  ];
+
+  const createFilter = (minServerScore?: number) => new MCPToolFilter({
+    embedding: new TestEmbeddingProvider(),
+    defaultOptions: { minScore: 0.05 },
+    hierarchical: { topServers: 1, minServerScore },
+  });
+
+  test('should only score tools of the best-matching servers', async () => {
+    const filter = createFilter();
+    await filter.initialize(servers);
+
+    const result = await filter.filter('What is the weather forecast for Paris?');
+
+    expect(result.tools[0].toolName).toBe('weather_forecast');
+    expect(result.tools.every(t => t.serverId === 'weather-server')).toBe(true);
+    expect(result.metrics.serversSelected).toEqual(['weather-server']);
+    expect(result.metrics.toolsSkipped).toBe(3);
+    expect(result.metrics.toolsEvaluated).toBe(2);
+    expect(result.metrics.fullScanFallback).toBe(false);
+  });
+
+  test('should still include alwaysInclude tools of skipped servers', async () => {
+    const filter = createFilter();
+    await filter.initialize(servers);
+
+    const result = await filter.filter('What is the weather forecast for Paris?', {
+      alwaysInclude: ['web_search'],
+    });
+
+    expect(result.tools.map(t => t.toolName)).toContain('web_search');
+  });
+
+  test('should fall back to a full scan when server confidence is low', async () => {
+    const filter = createFilter(0.99);
+    await filter.initialize(servers);
+
+    const result = await filter.filter('What is the weather forecast for Paris?');
+
+    expect(result.metrics.fullScanFallback).toBe(true);
+    expect(result.metrics.toolsSkipped).toBe(0);
+    expect(result.metrics.toolsEvaluated).toBe(5);
+  });
+
+  test('should update server embeddings on incremental changes', async () => {
+    const filter = createFilter();
+    await filter.initialize(mockServers);
+
+    await filter.addServer(servers[1]);
+    const result = await filter.filter('Any severe weather alerts?');
+
+    expect(result.metrics.serversSelected).toEqual(['weather-server']);
+    expect(filter.getStats().serverCount).toBe(2);
+  });
+});
+
+const verbs = ['create', 'list', 'delete', 'update', 'search', 'export', 'archive', 'share'];
+const nouns = ['invoice', 'ticket', 'document', 'meeting', 'contact', 'image', 'report', 'deployment',
+  'message', 'playlist', 'recipe', 'flight', 'budget', 'repository', 'sensor', 'survey'];
+const places = ['cloud', 'workspace', 'archive', 'team', 'database'];
+
+// Synthetic catalog for approximate search: 8 servers x 40 tools with overlapping vocabulary
+const catalog: MCPServer[] = Array.from({ length: 8 }, (_, s) => ({
+  id: `server-${s}`,
+  name: `Server ${s}`,
+  tools: Array.from({ length: 40 }, (_, t) => {
+    const verb = verbs[(s + t) % verbs.length];
+    const noun = nouns[(s * 3 + t) % nouns.length];
+    const place = places[(s + t * 7) % places.length];
+    return {
+      name: `${verb}_${noun}_${s}_${t}`,
+      description: `${verb} a ${noun} in the ${place}`,
+    };
+  }),
+}));
+
+const queries = [
+  'create an invoice for the client',
+  'find the meeting notes document',
+  'delete old deployment from the cloud',
+  'share the budget report with my team',
+  'search flights to Tokyo',
+  'archive every message in the workspace',
+];
+
+describe('MCPToolFilter approximate search', () => {
+  const createFilter = (ann?: { exactSearchThreshold?: number }) => new MCPToolFilter({
+    embedding: new TestEmbeddingProvider(),
+    defaultOptions: { minScore: 0, topK: 10 },
+    ann: ann && { efSearch: 40, ...ann },
+  });
+
+  test('should find nearly the same tools as exact search', async () => {
+    const exact = createFilter();
+    const approximate = createFilter({ exactSearchThreshold: 1 });
+    await exact.initialize(catalog);
+    await approximate.initialize(catalog);
+
+    let found = 0;
+    for (const query of queries) {
+      // Many tools share a description, so compare against the exact 10th-best score
+      const expected = (await exact.filter(query)).tools;
+      const cutoff = expected[expected.length - 1].score - 1e-6;
+      const result = await approximate.filter(query);
+
+      expect(result.metrics.approximate).toBe(true);
+      expect(result.metrics.toolsEvaluated).toBeLessThan(320);
+      found += result.tools.filter(t => t.score >= cutoff).length;
+    }
+
+    expect(found / (queries.length * 10)).toBeGreaterThanOrEqual(0.9);
+  });
+
+  test('should use exact search below the threshold', async () => {
+    const filter = createFilter({});
+    await filter.initialize(catalog);
+
+    const result = await filter.filter(queries[0]);
+    expect(result.metrics.approximate).toBe(false);
+    expect(result.metrics.toolsEvaluated).toBe(320);
+    expect(filter.getStats().annIndex?.nodes).toBe(320);
+  });
+
+  test('should honor exclude, alwaysInclude and minScore', async () => {
+    const filter = createFilter({ exactSearchThreshold: 1 });
+    await filter.initialize(catalog);
+
+    const baseline = await filter.filter(queries[0], { topK: 3 });
+    const excluded = baseline.tools[0].toolName;
+    const alwaysIncluded = catalog[7].tools[39].name;
+
+    const result = await filter.filter(queries[0], {
+      topK: 3,
+      exclude: [excluded],
+      alwaysInclude: [alwaysIncluded],
+    });
+    const names = result.tools.map(t => t.toolName);
+    expect(names).not.toContain(excluded);
+    expect(names[0]).toBe(alwaysIncluded);
+
+    const strict = await filter.filter(queries[0], { minScore: 0.99 });
+    expect(strict.tools).toHaveLength(0);
+  });
+
+  test('should keep the graph in sync with incremental updates', async () => {
+    const filter = createFilter({ exactSearchThreshold: 1 });
+    await filter.initialize(catalog);
+
+    await filter.upsertTool('server-0', { name: 'book_hotel', description: 'Book a hotel room for a trip' });
+    const added = await filter.filter('book a hotel room', { topK: 1 });
+    expect(added.tools[0].toolName).toBe('book_hotel');
+
+    await filter.removeServer('server-0');
+    const removed = await filter.filter('book a hotel room', { topK: 10 });
+    expect(removed.tools.every(t => t.serverId !== 'server-0')).toBe(true);
+    expect(filter.getStats().annIndex?.nodes).toBe(280);
+  });
+
+  test('should restore the graph from a snapshot', async () => {
+    const source = createFilter({ exactSearchThreshold: 1 });
+    await source.initialize(catalog);
+    const snapshot = source.exportIndex();
+    expect(snapshot.ann?.nodes).toHaveLength(320);
+
+    const restored = createFilter({ exactSearchThreshold: 1 });
+    await restored.importIndex(JSON.parse(JSON.stringify(snapshot)));
+
+    for (const query of queries) {
+      const expected = (await source.filter(query)).tools.map(t => t.toolName);
+      const result = await restored.filter(query);
+      expect(result.tools.map(t => t.toolName)).toEqual(expected);
+    }
+  });
+});
+
+describe('MCPToolFilter quantization', () => {
+  test.each(['int8', 'binary'] as const)('should rescore %s candidates at full precision', async type => {
+    const exact = new MCPToolFilter({
+      embedding: new TestEmbeddingProvider(),
+      defaultOptions: { minScore: 0, topK: 10 },
+    });
+    const quantized = new MCPToolFilter({
+      embedding: new TestEmbeddingProvider(),
+      defaultOptions: { minScore: 0, topK: 10 },
+      quantization: { type, recallSampleInterval: 1 },
+    });
+    await exact.initialize(catalog);
+    await quantized.initialize(catalog);
+
+    for (const query of queries) {
+      const expected = (await exact.filter(query)).tools;
+      const result = await quantized.filter(query);
+
+      expect(result.metrics.approximate).toBe(true);
+      expect(result.tools[0].score).toBeCloseTo(expected[0].score, 5);
+    }
+
+    const stats = quantized.getStats().quantization!;
+    expect(stats.type).toBe(type);
+    expect(stats.sampledQueries).toBe(queries.length);
+    expect(stats.recall).toBeGreaterThanOrEqual(0.9);
+    expect(stats.bytes).toBeLessThan(320 * 1024 * 4 / (type === 'int8' ? 3 : 24));
+  });
+
+  test('should read full-precision vectors from the embedding store', async () => {
+    const provider = new TestEmbeddingProvider();
+    const filter = new MCPToolFilter({
+      embedding: provider,
+      defaultOptions: { minScore: 0.1 },
+      embeddingStore: new MemoryEmbeddingStore(),
+      quantization: { type: 'int8', keepFullPrecision: false, recallSampleInterval: 1 },
+    });
+    await filter.initialize(mockServers);
+
+    const result = await filter.filter('Can you search my emails for the project update?');
+    expect(result.tools[0].toolName).toBe('email_search');
+    expect(provider.batches).toHaveLength(1);
+    expect(filter.getStats().quantization).toMatchObject({ fullPrecisionInMemory: false, sampledQueries: 1 });
+    expect(() => filter.exportIndex()).toThrow('full-precision');
+  });
+
+  test('should skip recall samples instead of re-embedding tools missing from the store', async () => {
+    class ForgetfulStore extends MemoryEmbeddingStore {
+      async getMany(keys: EmbeddingStoreKey[]): Promise<Array<Float32Array | undefined>> {
+        return keys.map(() => undefined);
+      }
+    }
+    const provider = new TestEmbeddingProvider();
+    const filter = new MCPToolFilter({
+      embedding: provider,
+      defaultOptions: { minScore: 0.1, topK: 1 },
+      embeddingStore: new ForgetfulStore(),
+      quantization: { type: 'int8', keepFullPrecision: false, rescoreCandidates: 1, recallSampleInterval: 1 },
+    });
+    await filter.initialize(mockServers);
+    await filter.filter('Can you search my emails for the project update?');
+
+    // One batch for initialize and one for the rescored candidate, none for the sample
+    expect(provider.batches.map(batch => batch.length)).toEqual([3, 1]);
+    expect(filter.getStats().quantization?.sampledQueries).toBe(0);
+  });
+
+  test('should require an embedding store when full-precision vectors are dropped', () => {
+    expect(() => new MCPToolFilter({
+      embedding: new TestEmbeddingProvider(),
+      quantization: { type: 'binary', keepFullPrecision: false },
+    })).toThrow('embeddingStore');
+  });
+});
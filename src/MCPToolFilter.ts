@@ -1,23 +1,99 @@
 import {
   MCPServer,
+  MCPTool,
   MCPToolFilterConfig,
   FilterInput,
   FilterOptions,
   FilterResult,
   ScoredTool,
+  ContextMode,
+  RecentToolsOptions,
+  IndexSnapshot,
+  IndexSnapshotTool,
+  DegradationStrategy,
 } from './types.js';
-import { EmbeddingProvider, createEmbeddingProvider } from './embedding.js';
+import {
+  EmbeddingProvider,
+  EmbeddingRole,
+  createEmbeddingProvider,
+  getProviderName,
+  isEmbeddingProvider,
+} from './embedding.js';
+import { FallbackEmbeddingProvider } from './fallback.js';
+import { EmbeddingStoreKey } from './store.js';
+import { BM25Index, buildLexicalDocument } from './bm25.js';
+import { HNSWIndex } from './hnsw.js';
+import { QuantizedVectorIndex } from './quantization.js';
+import { EmbeddingMatrix } from './matrix.js';
+import { EmbeddingSubject, EmbeddingValidationError, validateEmbedding } from './validation.js';
 import {
   normalizeVector,
   dotProduct,
   buildContextString,
+  buildContextMessages,
+  getRecentToolCalls,
+  truncateToTokens,
   extractToolsWithMetadata,
   partialSort,
   hashString,
   Timer,
   ToolWithMetadata,
   LRUCache,
+  sha256,
+  encodeVector,
+  decodeVector,
+  generateServerDescription,
 } from './utils.js';
+import { readFile, writeFile } from 'node:fs/promises';
+
+/**
+ * Current index snapshot format version
+ */
+export const INDEX_SNAPSHOT_VERSION = 1;
+
+/**
+ * Scores of the tools considered by one filter() call
+ * Rows are embedding matrix rows in exact search, or candidate positions otherwise.
+ */
+interface ScoreTable {
+  /** Rows that may be selected: not excluded, and in a selected server or always included */
+  rows: number[];
+
+  toolAt: (row: number) => ToolWithMetadata;
+
+  /** Final score by row */
+  scores: Float32Array;
+
+  /** Cosine and BM25 scores by row (hybrid search only) */
+  semanticScores?: Float32Array;
+  lexicalScores?: Float32Array;
+}
+
+/**
+ * Tool index of a backup provider in a fallback chain
+ */
+interface FallbackSpace {
+  /** Filter over the same servers, embedding with the backup provider */
+  filter: MCPToolFilter;
+
+  /** Last sync, and the index version it brought the backup to */
+  synced?: { version: number; done: Promise<void> };
+}
+
+/**
+ * Embedding of one recent message and its weight (per-message context modes)
+ */
+interface MessageQuery {
+  embedding: Float32Array;
+  weight: number;
+}
+
+interface SimilarityResult {
+  table: ScoreTable;
+  toolsEvaluated: number;
+  toolsSkipped: number;
+  approximate: boolean;
+}
 
 /**
  * Main MCP Tool Filter class
@@ -25,22 +101,121 @@ import {
 export class MCPToolFilter {
   private config: MCPToolFilterConfig;
   private embeddingProvider: EmbeddingProvider;
+  private providerName: string;
+  private ownsProvider: boolean;
   private initialized: boolean = false;
 
-  // Cached tool embeddings (normalized for cosine similarity)
-  private toolEmbeddings: Map<string, Float32Array> = new Map();
+  // Cached tool embeddings (normalized for cosine similarity); empty when
+  // quantization keeps full-precision vectors in the embedding store only
+  private toolEmbeddings: EmbeddingMatrix<ToolWithMetadata> = new EmbeddingMatrix();
   private toolMetadata: Map<string, ToolWithMetadata> = new Map();
 
+  // Reused across filter() calls so exact search allocates no per-tool scores
+  private scoreBuffer: Float32Array = new Float32Array(0);
+
+  // Lexical index for hybrid search (only when hybridSearch is configured)
+  private lexicalIndex?: BM25Index;
+
+  // Approximate nearest neighbor graph over toolEmbeddings (only when ann is configured)
+  private annIndex?: HNSWIndex;
+
+  // Quantized tool embeddings for a cheap first scoring pass (only when quantization is configured)
+  private quantizedEmbeddings?: QuantizedVectorIndex;
+  private keepFullPrecision: boolean = true;
+  private queryCount: number = 0;
+  private recallSamples: number[] = [];
+  private readonly MAX_RECALL_SAMPLES = 100;
+
+  // Server embeddings for hierarchical filtering (only when hierarchical is configured):
+  // the embedded server text, and its combination with the server's tool centroid
+  private serverTextEmbeddings: Map<string, { description: string; embedding: Float32Array }> = new Map();
+  private serverEmbeddings: Map<string, Float32Array> = new Map();
+
+  // Loaded servers, kept so individual servers/tools can be updated later
+  private servers: Map<string, MCPServer> = new Map();
+
+  // Serializes index mutations so concurrent updates never interleave
+  private mutationQueue: Promise<void> = Promise.resolve();
+
   // Context embedding cache with proper LRU eviction
   private contextCache: LRUCache<string, Float32Array>;
   private readonly MAX_CACHE_SIZE = 100;
 
+  // Last successful tools per session (only for the lastResult degradation strategy)
+  private lastResults?: LRUCache<string, ScoredTool[]>;
+
+  // Fallback chain (only with a FallbackEmbeddingProvider): embeddingProvider is its
+  // first member, and each later member scores against its own tool embeddings
+  private fallbackProvider?: FallbackEmbeddingProvider;
+  private fallbackSpaces: FallbackSpace[] = [];
+  // Bumped by every mutation, so backups know when to resync
+  private indexVersion: number = 0;
+  // Set when the primary provider could not build the index; filter() serves from
+  // backups and rebuilds it in the background
+  private primaryStale: boolean = false;
+  private primaryResync?: Promise<void>;
+  // Dimensions of the indexed vectors: probed by initialize(), or read from an imported snapshot
+  private dimensions?: number;
+
   constructor(config: MCPToolFilterConfig) {
     this.config = config;
-    this.embeddingProvider = createEmbeddingProvider(config.embedding);
+    this.providerName = getProviderName(config.embedding);
+    if (isEmbeddingProvider(config.embedding)) {
+      this.embeddingProvider = config.embedding;
+      this.ownsProvider = false;
+    } else {
+      this.embeddingProvider = createEmbeddingProvider(config.embedding);
+      this.ownsProvider = true;
+    }
+
+    if (this.embeddingProvider instanceof FallbackEmbeddingProvider) {
+      const members = this.embeddingProvider.getProviders();
+      const memberConfigs = !isEmbeddingProvider(config.embedding) && config.embedding.provider === 'fallback'
+        ? config.embedding.providers
+        : undefined;
+      // Chain members from a config keep their own names in store keys and snapshots.
+      // A name already taken by an earlier member (e.g. two provider instances) gets
+      // the member's index, so members never share store entries.
+      const names = members.map((_, i) => memberConfigs ? getProviderName(memberConfigs[i]) : 'custom');
+      const memberNames = names.map((name, i) => names.indexOf(name) < i ? `${name}#${i}` : name);
+
+      const [primary, ...backups] = members;
+      this.fallbackProvider = this.embeddingProvider;
+      this.embeddingProvider = primary;
+      this.providerName = memberNames[0];
+      this.fallbackSpaces = backups.map((provider, i) => {
+        const filter = new MCPToolFilter({ ...config, embedding: provider, degradation: undefined });
+        filter.providerName = memberNames[i + 1];
+        return { filter };
+      });
+    }
     this.contextCache = new LRUCache(this.MAX_CACHE_SIZE);
 
-    this.log('MCPToolFilter initialized with provider:', config.embedding.provider);
+    const degradationStrategies = this.getDegradationStrategies();
+    if (config.hybridSearch || degradationStrategies.includes('lexical')) {
+      this.lexicalIndex = new BM25Index({ k1: config.hybridSearch?.k1, b: config.hybridSearch?.b });
+    }
+    if (degradationStrategies.includes('lastResult')) {
+      this.lastResults = new LRUCache(config.degradation!.maxSessions ?? 1000);
+    }
+
+    if (config.ann) {
+      this.annIndex = new HNSWIndex({ M: config.ann.M, efConstruction: config.ann.efConstruction });
+    }
+
+    if (config.quantization) {
+      this.quantizedEmbeddings = new QuantizedVectorIndex(config.quantization.type);
+      this.keepFullPrecision = config.quantization.keepFullPrecision ?? true;
+
+      if (!this.keepFullPrecision && !config.embeddingStore) {
+        throw new Error('quantization.keepFullPrecision: false requires an embeddingStore for full-precision vectors');
+      }
+      if (!this.keepFullPrecision && config.ann) {
+        throw new Error('ann requires full-precision vectors in memory (quantization.keepFullPrecision)');
+      }
+    }
+
+    this.log('MCPToolFilter initialized with provider:', this.providerName);
   }
 
   /**
@@ -48,32 +223,300 @@ export class MCPToolFilter {
    * This precomputes and caches all tool embeddings
    */
   async initialize(servers: MCPServer[]): Promise<void> {
+    return this.enqueueMutation(async () => {
+      try {
+        await this.buildIndex(servers);
+        this.primaryStale = false;
+      } catch (error) {
+        if (this.fallbackSpaces.length === 0) throw error;
+
+        // Serve from a backup provider until the primary one recovers
+        this.log('Primary embedding provider failed, initializing backups:', error);
+        await this.syncAnyFallback(servers, error);
+        this.servers = new Map(servers.map(server => [server.id, server]));
+        this.primaryStale = true;
+        this.initialized = true;
+      }
+    });
+  }
+
+  private async buildIndex(servers: MCPServer[]): Promise<void> {
     const timer = new Timer();
     this.log(`Initializing with ${servers.length} servers...`);
 
+    // Store keys depend on the dimensions, which some providers only know once loaded
+    await this.embeddingProvider.initialize?.();
+    this.dimensions = this.embeddingProvider.getDimensions();
+
     // Extract all tools with metadata
     const includeServerDesc = this.config.includeServerDescription ?? false;
     const tools = extractToolsWithMetadata(servers, includeServerDesc);
     this.log(`Found ${tools.length} total tools (includeServerDescription: ${includeServerDesc})`);
 
-    // Generate descriptions for embedding
-    const descriptions = tools.map(t => t.description);
-
-    // Batch embed all tool descriptions
+    // Batch embed all tool descriptions (unchanged tools are reused on re-initialization)
     this.log('Computing tool embeddings...');
-    const embeddings = await this.embeddingProvider.embedBatch(descriptions);
+    const embeddings = await this.embedTools(tools);
+    const serverTexts = await this.embedServerTexts(servers);
 
-    // Normalize and cache embeddings
-    for (let i = 0; i < tools.length; i++) {
-      const toolKey = this.getToolKey(tools[i].serverId, tools[i].tool.name);
-      const normalized = normalizeVector(embeddings[i]);
+    this.replaceIndex(servers, tools, embeddings, serverTexts);
+    this.log(`Initialization complete in ${timer.elapsed()}ms`);
+  }
 
-      this.toolEmbeddings.set(toolKey, normalized);
-      this.toolMetadata.set(toolKey, tools[i]);
+  /**
+   * Export the precomputed tool index so it can be reloaded without re-embedding
+   */
+  exportIndex(): IndexSnapshot {
+    this.assertInitialized();
+    if (!this.keepFullPrecision) {
+      throw new Error('exportIndex() requires full-precision vectors in memory (quantization.keepFullPrecision)');
     }
 
-    this.initialized = true;
-    this.log(`Initialization complete in ${timer.elapsed()}ms`);
+    const tools: IndexSnapshotTool[] = [];
+    for (const [toolKey, metadata] of this.toolMetadata) {
+      tools.push({
+        serverId: metadata.serverId,
+        serverName: metadata.serverName,
+        tool: metadata.tool,
+        description: metadata.description,
+        descriptionHash: sha256(metadata.description),
+        embedding: encodeVector(this.toolEmbeddings.viewAt(this.toolEmbeddings.indexOf(toolKey)!)),
+      });
+    }
+
+    return {
+      version: INDEX_SNAPSHOT_VERSION,
+      provider: this.providerName,
+      model: this.embeddingProvider.getModel(),
+      dimensions: this.getDimensions(),
+      createdAt: new Date().toISOString(),
+      servers: [...this.servers.values()],
+      tools,
+      ...(this.annIndex && { ann: this.annIndex.serialize() }),
+    };
+  }
+
+  /**
+   * Initialize from a previously exported index
+   * @param snapshot - Snapshot produced by exportIndex()
+   * @param servers - Optional current server list; tools that are new or whose
+   *   description hash changed since the snapshot are re-embedded. Defaults to
+   *   the servers stored in the snapshot.
+   *
+   * The provider is initialized first, so a snapshot with different dimensions
+   * is refused before the index changes. If the primary provider fails, a
+   * fallback chain serves from a backup provider, as in initialize().
+   */
+  async importIndex(snapshot: IndexSnapshot, servers?: MCPServer[]): Promise<void> {
+    if (snapshot.version !== INDEX_SNAPSHOT_VERSION) {
+      throw new Error(
+        `Unsupported index snapshot version ${snapshot.version} (expected ${INDEX_SNAPSHOT_VERSION})`
+      );
+    }
+
+    // Providers can share a model name without sharing a vector space
+    if (snapshot.provider !== this.providerName) {
+      throw new Error(
+        `Index snapshot was built with provider "${snapshot.provider}", but the filter uses "${this.providerName}"`
+      );
+    }
+
+    const model = this.embeddingProvider.getModel();
+    if (snapshot.model !== model) {
+      throw new Error(`Index snapshot was built with model "${snapshot.model}", but the filter uses "${model}"`);
+    }
+
+    let primaryError: unknown;
+    try {
+      await this.embeddingProvider.initialize?.();
+    } catch (error) {
+      if (this.fallbackSpaces.length === 0) throw error;
+      primaryError = error;
+    }
+
+    if (primaryError === undefined) {
+      const dimensions = this.embeddingProvider.getDimensions();
+      if (snapshot.dimensions !== dimensions) {
+        throw new Error(
+          `Index snapshot has ${snapshot.dimensions} dimensions, but the filter uses ${dimensions}`
+        );
+      }
+    }
+
+    return this.enqueueMutation(async () => {
+      const targetServers = servers ?? snapshot.servers;
+      try {
+        if (primaryError !== undefined) throw primaryError;
+        await this.restoreIndex(snapshot, targetServers);
+        this.primaryStale = false;
+      } catch (error) {
+        if (this.fallbackSpaces.length === 0) throw error;
+
+        this.log('Primary embedding provider failed, importing into backups:', error);
+        await this.syncAnyFallback(targetServers, error);
+        this.servers = new Map(targetServers.map(server => [server.id, server]));
+        this.primaryStale = true;
+        this.initialized = true;
+      }
+    });
+  }
+
+  /**
+   * Build the index from a snapshot, re-embedding only new and changed tools
+   */
+  private async restoreIndex(snapshot: IndexSnapshot, targetServers: MCPServer[]): Promise<void> {
+    const timer = new Timer();
+    this.dimensions = snapshot.dimensions;
+
+    const includeServerDesc = this.config.includeServerDescription ?? false;
+    const tools = extractToolsWithMetadata(targetServers, includeServerDesc);
+
+    const snapshotTools = new Map<string, IndexSnapshotTool>();
+    for (const entry of snapshot.tools) {
+      snapshotTools.set(this.getToolKey(entry.serverId, entry.tool.name), entry);
+    }
+
+    const reused = new Map<string, Float32Array>();
+    const embeddings = await this.embedTools(tools, (toolKey, tool) => {
+      const entry = snapshotTools.get(toolKey);
+      if (entry === undefined || entry.descriptionHash !== sha256(tool.description)) {
+        return undefined;
+      }
+      const embedding = decodeVector(entry.embedding);
+      validateEmbedding(embedding, snapshot.dimensions, { kind: 'tool', toolKey });
+      reused.set(toolKey, embedding);
+      return embedding;
+    });
+
+    // Rescoring reads full-precision vectors from the store when they are not kept in memory
+    if (!this.keepFullPrecision && reused.size > 0) {
+      const reusedTools = tools.filter(tool => reused.has(this.getToolKey(tool.serverId, tool.tool.name)));
+      await this.writeEmbeddingStore(
+        reusedTools.map(tool => tool.description),
+        reusedTools.map(tool => reused.get(this.getToolKey(tool.serverId, tool.tool.name))!),
+        'document'
+      );
+    }
+
+    const serverTexts = await this.embedServerTexts(targetServers);
+
+    // Restore the graph for reused vectors; new and changed tools are inserted by replaceIndex
+    if (this.annIndex && snapshot.ann && snapshot.ann.M === (this.config.ann!.M ?? 16)) {
+      this.annIndex = HNSWIndex.deserialize(snapshot.ann, toolKey => reused.get(toolKey));
+    }
+
+    this.replaceIndex(targetServers, tools, embeddings, serverTexts);
+    this.log(`Index imported in ${timer.elapsed()}ms`);
+  }
+
+  /**
+   * Write the exported index to a JSON file
+   */
+  async saveIndexToFile(path: string): Promise<void> {
+    await writeFile(path, JSON.stringify(this.exportIndex()), 'utf8');
+  }
+
+  /**
+   * Initialize from an index file written by saveIndexToFile()
+   */
+  async loadIndexFromFile(path: string, servers?: MCPServer[]): Promise<void> {
+    const snapshot: IndexSnapshot = JSON.parse(await readFile(path, 'utf8'));
+    await this.importIndex(snapshot, servers);
+  }
+
+  /**
+   * Add a new server and embed its tools
+   */
+  async addServer(server: MCPServer): Promise<void> {
+    this.assertInitialized();
+
+    return this.enqueueMutation(async () => {
+      if (this.servers.has(server.id)) {
+        throw new Error(`Server "${server.id}" already exists. Use updateServer() instead.`);
+      }
+      await this.syncServer(server);
+    });
+  }
+
+  /**
+   * Replace a server's definition and tool list
+   * Only tools whose generated description changed are re-embedded
+   */
+  async updateServer(server: MCPServer): Promise<void> {
+    this.assertInitialized();
+
+    return this.enqueueMutation(async () => {
+      if (!this.servers.has(server.id)) {
+        throw new Error(`Unknown server "${server.id}". Use addServer() instead.`);
+      }
+      await this.syncServer(server);
+    });
+  }
+
+  /**
+   * Remove a server and all of its tools
+   * @returns true if the server was loaded
+   */
+  async removeServer(serverId: string): Promise<boolean> {
+    this.assertInitialized();
+
+    return this.enqueueMutation(async () => {
+      if (!this.servers.has(serverId)) {
+        return false;
+      }
+
+      for (const [toolKey, metadata] of this.toolMetadata) {
+        if (metadata.serverId === serverId) {
+          this.deleteIndexEntry(toolKey);
+        }
+      }
+      this.servers.delete(serverId);
+      this.serverTextEmbeddings.delete(serverId);
+      this.serverEmbeddings.delete(serverId);
+
+      this.log(`Removed server ${serverId}`);
+      return true;
+    });
+  }
+
+  /**
+   * Add a tool to a server, or replace the tool with the same name
+   */
+  async upsertTool(serverId: string, tool: MCPTool): Promise<void> {
+    this.assertInitialized();
+
+    return this.enqueueMutation(async () => {
+      const server = this.getServerOrThrow(serverId);
+
+      const index = server.tools.findIndex(t => t.name === tool.name);
+      const tools = [...server.tools];
+      if (index === -1) {
+        tools.push(tool);
+      } else {
+        tools[index] = tool;
+      }
+
+      await this.syncServer({ ...server, tools });
+    });
+  }
+
+  /**
+   * Remove a single tool from a server
+   * @returns true if the tool was loaded
+   */
+  async removeTool(serverId: string, toolName: string): Promise<boolean> {
+    this.assertInitialized();
+
+    return this.enqueueMutation(async () => {
+      const server = this.getServerOrThrow(serverId);
+
+      const tools = server.tools.filter(t => t.name !== toolName);
+      if (tools.length === server.tools.length) {
+        return false;
+      }
+
+      await this.syncServer({ ...server, tools });
+      return true;
+    });
   }
 
   /**
@@ -83,9 +526,7 @@ export class MCPToolFilter {
     input: FilterInput,
     options?: FilterOptions
   ): Promise<FilterResult> {
-    if (!this.initialized) {
-      throw new Error('MCPToolFilter not initialized. Call initialize() first.');
-    }
+    this.assertInitialized();
 
     const totalTimer = new Timer();
     this.log('=== Starting filter request ===');
@@ -99,59 +540,122 @@ export class MCPToolFilter {
       alwaysInclude: options?.alwaysInclude ?? this.config.defaultOptions?.alwaysInclude ?? [],
       exclude: options?.exclude ?? this.config.defaultOptions?.exclude ?? [],
       maxContextTokens: options?.maxContextTokens ?? this.config.defaultOptions?.maxContextTokens ?? 500,
+      truncation: options?.truncation ?? this.config.defaultOptions?.truncation ?? 'head',
+      contextMode: options?.contextMode ?? this.config.defaultOptions?.contextMode ?? 'concatenated',
+      contextWeights: options?.contextWeights ?? this.config.defaultOptions?.contextWeights ?? {},
+      maxToolResultTokens: options?.maxToolResultTokens ?? this.config.defaultOptions?.maxToolResultTokens ?? 100,
+      recentTools: options?.recentTools ?? this.config.defaultOptions?.recentTools ?? {},
+      sessionId: options?.sessionId ?? '',
     };
+    const recencyDecay = opts.contextWeights.recencyDecay;
+    if (recencyDecay !== undefined && !(recencyDecay > 0 && recencyDecay <= 1)) {
+      throw new Error(`contextWeights.recencyDecay must be in (0, 1], got ${recencyDecay}`);
+    }
     const mergeTime = mergeTimer.elapsed();
     this.log(`[1/5] Options merged: ${mergeTime.toFixed(2)}ms`);
 
     // Build context string
     const contextTimer = new Timer();
+    const tokenizer = this.config.tokenizer;
+    const contextTokens = Math.min(opts.maxContextTokens, this.getInputTokenLimit('query') ?? Infinity);
     const contextString = buildContextString(
       input,
       opts.contextMessages,
-      opts.maxContextTokens
+      contextTokens,
+      opts.truncation,
+      tokenizer,
+      opts.maxToolResultTokens
     );
+
+    // Sticky recent tools ride along with alwaysInclude, so every search mode keeps them
+    const recentTools = getRecentToolCalls(input, opts.contextMessages);
+    if (opts.recentTools.sticky && recentTools.length > 0) {
+      opts.alwaysInclude = [...new Set([...opts.alwaysInclude, ...recentTools])];
+    }
     const contextTime = contextTimer.elapsed();
     this.log(`[2/5] Context built (${contextString.length} chars): ${contextTime.toFixed(2)}ms`);
 
+    // Backups answer until the primary index is rebuilt, so no request pays for the rebuild
+    if (this.primaryStale) {
+      this.resyncPrimary();
+      const fallbackResult = await this.filterWithFallbacks(input, options, opts.sessionId, totalTimer);
+      if (fallbackResult) return fallbackResult;
+
+      const cause = new Error('Primary index is outdated and every fallback provider failed');
+      if (!this.config.degradation) throw cause;
+      return this.degrade(cause, contextString, opts, totalTimer, 0);
+    }
+
     // Check cache
     const cacheTimer = new Timer();
     const contextHash = hashString(contextString);
     let contextEmbedding: Float32Array;
+    let messageQueries: MessageQuery[] | undefined;
     let embeddingTime: number;
     const cacheTime = cacheTimer.elapsed();
 
-    const cachedEmbedding = this.contextCache.get(contextHash);
+    // Per-message modes look up each message instead
+    const cachedEmbedding = opts.contextMode !== 'concatenated'
+      ? undefined
+      : this.contextCache.get(contextHash);
     if (cachedEmbedding !== undefined) {
       contextEmbedding = cachedEmbedding;
       embeddingTime = 0;
       this.log(`[3/5] Cache HIT (lookup: ${cacheTime.toFixed(2)}ms, embedding: 0ms)`);
     } else {
-      this.log(`[3/5] Cache MISS (lookup: ${cacheTime.toFixed(2)}ms)`);
-      // Embed context
+      this.log(opts.contextMode === 'concatenated'
+        ? `[3/5] Cache MISS (lookup: ${cacheTime.toFixed(2)}ms)`
+        : `[3/5] Embedding messages separately (${opts.contextMode})`);
       const embTimer = new Timer();
-      const rawEmbedding = await this.embeddingProvider.embed(contextString);
-      contextEmbedding = normalizeVector(rawEmbedding, true); // Use in-place normalization
-      embeddingTime = embTimer.elapsed();
-
-      // Cache the embedding
-      this.contextCache.set(contextHash, contextEmbedding);
+      try {
+        if (opts.contextMode === 'concatenated') {
+          contextEmbedding = await this.embedContext(contextString);
+          this.contextCache.set(contextHash, contextEmbedding);
+        } else {
+          messageQueries = await this.embedContextMessages(input, contextTokens, opts);
+          contextEmbedding = this.combineMessageQueries(messageQueries, opts.contextMode);
+        }
+      } catch (error) {
+        const fallbackResult = await this.filterWithFallbacks(input, options, opts.sessionId, totalTimer);
+        if (fallbackResult) return fallbackResult;
 
+        if (!this.config.degradation) throw error;
+        const cause = error instanceof Error ? error : new Error(String(error));
+        return this.degrade(cause, contextString, opts, totalTimer, embTimer.elapsed());
+      }
+      embeddingTime = embTimer.elapsed();
       this.log(`     → Embedding generated: ${embeddingTime.toFixed(2)}ms`);
     }
 
-    // Compute similarities
+    // Compute similarities (hierarchical mode only scores the best-matching servers' tools)
     const simTimer = new Timer();
-    const scores = this.computeSimilarities(contextEmbedding, opts);
+    const serverSelection = this.selectServers(contextEmbedding);
+    const serverIds = serverSelection && !serverSelection.fullScanFallback
+      ? new Set(serverSelection.serverIds)
+      : undefined;
+    // Exact search must not yield between scoring and selection (see computeSimilarities)
+    const { table, toolsEvaluated, toolsSkipped, approximate } = messageQueries && opts.contextMode === 'maxScore'
+      ? await this.computeMaxSimilarities(messageQueries, contextString, opts, serverIds)
+      : this.usesCandidateSearch()
+        ? await this.computeCandidateSimilarities(contextEmbedding, contextString, opts, serverIds)
+        : this.computeSimilarities(contextEmbedding, contextString, opts, serverIds);
+    if (recentTools.length > 0) {
+      this.boostRecentTools(table, recentTools, opts.recentTools);
+    }
     const similarityTime = simTimer.elapsed();
 
-    this.log(`[4/5] Similarities computed: ${similarityTime.toFixed(2)}ms (${this.toolEmbeddings.size} tools, ${(similarityTime / this.toolEmbeddings.size).toFixed(3)}ms/tool)`);
+    if (serverSelection) {
+      this.log(`     → Servers selected: ${serverSelection.serverIds.join(', ')}${serverSelection.fullScanFallback ? ' (low confidence, full scan)' : ''}`);
+    }
+    this.log(`[4/5] Similarities computed${approximate ? ' (approximate)' : ''}: ${similarityTime.toFixed(2)}ms (${toolsEvaluated} tools, ${(similarityTime / toolsEvaluated).toFixed(3)}ms/tool)`);
 
     // Filter and rank tools
     const selectTimer = new Timer();
-    const filteredTools = this.selectTools(scores, opts);
+    const filteredTools = this.selectTools(table, opts);
     const selectionTime = selectTimer.elapsed();
 
     this.log(`[5/5] Tools selected & ranked: ${selectionTime.toFixed(2)}ms (${filteredTools.length} tools returned)`);
+    this.rememberResult(opts.sessionId, filteredTools);
 
     const totalTime = totalTimer.elapsed();
     this.log(`=== Total filter time: ${totalTime.toFixed(2)}ms ===`);
@@ -165,108 +669,1196 @@ export class MCPToolFilter {
         totalTime,
         embeddingTime,
         similarityTime,
-        toolsEvaluated: this.toolEmbeddings.size,
+        toolsEvaluated,
+        ...(serverSelection && {
+          serversSelected: serverSelection.serverIds,
+          toolsSkipped,
+          fullScanFallback: serverSelection.fullScanFallback,
+        }),
+        ...((this.annIndex || this.quantizedEmbeddings) && { approximate }),
+        ...(this.fallbackProvider && { providerIndex: 0 }),
+        contextMode: opts.contextMode,
       },
     };
   }
 
   /**
-   * Compute similarity scores for all tools
-   * Optimized to minimize intermediate array allocations
+   * Answer a filter request with the first backup provider that can embed the context
+   * Each backup scores against its own tool embeddings, synced on first use.
    */
-  private computeSimilarities(
-    contextEmbedding: Float32Array,
-    options: Required<FilterOptions>
-  ): ScoredTool[] {
-    const scores: ScoredTool[] = [];
-    const excludeSet = new Set(options.exclude); // Pre-convert to Set for O(1) lookup
+  private async filterWithFallbacks(
+    input: FilterInput,
+    options: FilterOptions | undefined,
+    sessionId: string,
+    totalTimer: Timer
+  ): Promise<FilterResult | undefined> {
+    for (let i = 0; i < this.fallbackSpaces.length; i++) {
+      try {
+        await this.syncFallback(this.fallbackSpaces[i]);
+        const result = await this.fallbackSpaces[i].filter.filter(input, options);
+        this.rememberResult(sessionId, result.tools);
+        this.log(`Context embedded by fallback provider ${i + 1}`);
+        return {
+          ...result,
+          metrics: { ...result.metrics, totalTime: totalTimer.elapsed(), providerIndex: i + 1 },
+        };
+      } catch (error) {
+        this.log(`Fallback provider ${i + 1} failed:`, error);
+      }
+    }
+    return undefined;
+  }
 
-    for (const [toolKey, toolEmbedding] of this.toolEmbeddings.entries()) {
-      const metadata = this.toolMetadata.get(toolKey)!;
+  /**
+   * Bring a backup's tool index up to date with the current servers
+   * Concurrent requests share one sync; a failed sync is retried by the next request.
+   */
+  private syncFallback(space: FallbackSpace, servers: MCPServer[] = [...this.servers.values()]): Promise<void> {
+    if (space.synced?.version !== this.indexVersion) {
+      const done = space.filter.initialize(servers);
+      const synced = { version: this.indexVersion, done };
+      space.synced = synced;
+      done.catch(() => {
+        if (space.synced === synced) space.synced = undefined;
+      });
+    }
+    return space.synced!.done;
+  }
 
-      // Skip excluded tools (O(1) lookup)
-      if (excludeSet.has(metadata.tool.name)) {
-        continue;
+  /**
+   * Sync backups in order until one succeeds
+   * @param cause - Error rethrown when every backup fails
+   */
+  private async syncAnyFallback(servers: MCPServer[], cause: unknown): Promise<void> {
+    for (let i = 0; i < this.fallbackSpaces.length; i++) {
+      try {
+        await this.syncFallback(this.fallbackSpaces[i], servers);
+        return;
+      } catch (error) {
+        this.log(`Fallback provider ${i + 1} failed:`, error);
       }
+    }
+    throw cause;
+  }
 
-      // Compute cosine similarity (dot product of normalized vectors)
-      const score = dotProduct(contextEmbedding, toolEmbedding);
-
-      scores.push({
-        serverId: metadata.serverId,
-        toolName: metadata.tool.name,
-        tool: metadata.tool,
-        score,
+  /**
+   * Rebuild the primary index in the background once the primary provider works again
+   * Concurrent requests share one rebuild; a failed rebuild is retried by the next request.
+   */
+  private resyncPrimary(): void {
+    this.primaryResync ??= this.enqueueMutation(async () => {
+      if (!this.primaryStale) return;
+      await this.buildIndex([...this.servers.values()]);
+      this.primaryStale = false;
+    }, false)
+      .catch(error => this.log('Primary index rebuild failed:', error))
+      .finally(() => {
+        this.primaryResync = undefined;
       });
+  }
+
+  /**
+   * Embed the conversation context, checking the shared embedding store first
+   * @returns Normalized embedding
+   */
+  private async embedContext(contextString: string): Promise<Float32Array> {
+    const [storedEmbedding] = await this.readEmbeddingStore([contextString], 'query');
+    if (storedEmbedding !== undefined) {
+      return storedEmbedding;
     }
 
-    return scores;
+    const rawEmbedding = await this.embeddingProvider.embed(contextString, 'query');
+    // A zero context vector is harmless: it scores every tool 0
+    validateEmbedding(rawEmbedding, this.getDimensions(), { kind: 'context' }, true);
+    const contextEmbedding = normalizeVector(rawEmbedding, true); // Use in-place normalization
+    await this.writeEmbeddingStore([contextString], [contextEmbedding], 'query');
+    return contextEmbedding;
   }
 
   /**
-   * Select and rank tools based on scores
-   * Optimized to reduce intermediate array allocations
+   * Embed each recent message on its own, through the context cache
+   * Messages that weigh 0 are not embedded; without any message left, the
+   * joined context stands in for them.
    */
-  private selectTools(
-    scores: ScoredTool[],
+  private async embedContextMessages(
+    input: FilterInput,
+    maxTokens: number,
     options: Required<FilterOptions>
-  ): ScoredTool[] {
-    // Separate always-include tools and filter by minScore in one pass
-    const alwaysIncludeSet = new Set(options.alwaysInclude);
-    const alwaysIncluded: ScoredTool[] = [];
-    const scoredTools: ScoredTool[] = [];
+  ): Promise<MessageQuery[]> {
+    const messages = buildContextMessages(
+      input,
+      options.contextMessages,
+      maxTokens,
+      options.truncation,
+      this.config.tokenizer,
+      options.maxToolResultTokens
+    );
 
-    for (const scored of scores) {
-      if (alwaysIncludeSet.has(scored.toolName)) {
-        alwaysIncluded.push(scored);
-      } else if (scored.score >= options.minScore) {
-        scoredTools.push(scored);
-      }
+    const recencyDecay = options.contextWeights.recencyDecay ?? 0.5;
+    const roleWeights: Record<string, number> = {
+      user: 1,
+      assistant: 0.5,
+      tool: 0.5,
+      ...options.contextWeights.roleWeights,
+    };
+
+    const weighted = messages
+      .map((message, i) => ({
+        text: message.text,
+        weight: Math.pow(recencyDecay, messages.length - 1 - i) * (roleWeights[message.role] ?? 0),
+      }))
+      .filter(message => message.weight > 0);
+    if (weighted.length === 0) {
+      weighted.push({
+        text: buildContextString(
+          input,
+          options.contextMessages,
+          maxTokens,
+          options.truncation,
+          this.config.tokenizer,
+          options.maxToolResultTokens
+        ),
+        weight: 1,
+      });
     }
 
-    // Get top K from scored tools using heap-based selection (O(n log k))
-    const remainingSlots = Math.max(0, options.topK - alwaysIncluded.length);
-    const topScored = partialSort(
-      scoredTools,
-      remainingSlots,
-      (tool) => tool.score
-    );
+    let cacheHits = 0;
+    const queries = await Promise.all(weighted.map(async ({ text, weight }) => {
+      const hash = hashString(text);
+      let embedding = this.contextCache.get(hash);
+      if (embedding !== undefined) {
+        cacheHits++;
+      } else {
+        embedding = await this.embedContext(text);
+        this.contextCache.set(hash, embedding);
+      }
+      return { embedding, weight };
+    }));
 
-    // Combine: always-included first, then top scored
-    return [...alwaysIncluded, ...topScored];
+    this.log(`     → ${queries.length} messages embedded (${cacheHits} cached)`);
+    return queries;
   }
 
   /**
-   * Generate unique key for a tool
+   * Combine message embeddings into one query vector
+   * weightedEmbedding normalizes the weighted sum. weightedScore keeps the
+   * weighted average unnormalized: its dot product with a tool is then the
+   * weighted average of the tool's per-message cosine scores. maxScore uses
+   * the normalized sum only to pick servers (hierarchical mode).
    */
-  private getToolKey(serverId: string, toolName: string): string {
-    return `${serverId}::${toolName}`;
+  private combineMessageQueries(queries: MessageQuery[], mode: ContextMode): Float32Array {
+    const combined = new Float32Array(queries[0].embedding.length);
+    let totalWeight = 0;
+    for (const { embedding, weight } of queries) {
+      for (let i = 0; i < combined.length; i++) {
+        combined[i] += weight * embedding[i];
+      }
+      totalWeight += weight;
+    }
+
+    if (mode !== 'weightedScore') {
+      return normalizeVector(combined, true);
+    }
+    for (let i = 0; i < combined.length; i++) {
+      combined[i] /= totalWeight;
+    }
+    return combined;
   }
 
   /**
-   * Clear all caches
+   * Answer a filter request without a context embedding
+   * Strategies are tried in order; the first that returns tools wins.
    */
-  clearCache(): void {
-    this.contextCache.clear();
-    this.log('Caches cleared');
+  private degrade(
+    cause: Error,
+    contextString: string,
+    options: Required<FilterOptions>,
+    totalTimer: Timer,
+    embeddingTime: number
+  ): FilterResult {
+    this.log('Context embedding failed, degrading:', cause);
+
+    const simTimer = new Timer();
+    let strategy: DegradationStrategy | 'none' = 'none';
+    let tools: ScoredTool[] = [];
+    let toolsEvaluated = 0;
+
+    for (const candidate of this.getDegradationStrategies()) {
+      if (candidate === 'lastResult') {
+        // Without a session there is no result that belongs to this caller
+        if (options.sessionId === '') continue;
+        // Drop tools removed from the index since
+        tools = (this.lastResults!.get(options.sessionId) ?? [])
+          .filter(tool => this.toolMetadata.has(this.getToolKey(tool.serverId, tool.toolName)));
+      } else {
+        const scores = candidate === 'lexical'
+          ? this.lexicalIndex!.score(contextString)
+          : this.scoreDefaultTools();
+        tools = this.selectToolsByScore(scores, options);
+        toolsEvaluated = this.toolMetadata.size;
+      }
+
+      if (tools.length > 0) {
+        strategy = candidate;
+        break;
+      }
+    }
+
+    const similarityTime = simTimer.elapsed();
+    this.log(`Degraded result (${strategy}): ${tools.length} tools`);
+
+    return {
+      tools,
+      metrics: {
+        totalTime: totalTimer.elapsed(),
+        embeddingTime,
+        similarityTime,
+        toolsEvaluated,
+      },
+      degraded: true,
+      degradation: { strategy, cause },
+    };
   }
 
   /**
-   * Get initialization status
+   * Remember a session's result for the lastResult strategy; requests without a sessionId are not remembered
    */
-  isInitialized(): boolean {
-    return this.initialized;
+  private rememberResult(sessionId: string, tools: ScoredTool[]): void {
+    if (sessionId !== '') this.lastResults?.set(sessionId, tools);
+  }
+
+  private getDegradationStrategies(): DegradationStrategy[] {
+    const degradation = this.config.degradation;
+    if (!degradation) return [];
+    return degradation.strategies ?? ['lastResult', 'lexical'];
   }
 
   /**
-   * Get stats about loaded tools
+   * Score 1 for each configured default tool
    */
-  getStats() {
-    return {
-      initialized: this.initialized,
-      toolCount: this.toolEmbeddings.size,
-      cacheSize: this.contextCache.size,
-      embeddingDimensions: this.embeddingProvider.getDimensions(),
+  private scoreDefaultTools(): Map<string, number> {
+    const defaultTools = new Set(this.config.degradation!.defaultTools ?? []);
+    const scores = new Map<string, number>();
+    for (const [toolKey, metadata] of this.toolMetadata) {
+      if (defaultTools.has(metadata.tool.name)) scores.set(toolKey, 1);
+    }
+    return scores;
+  }
+
+  /**
+   * Select tools from scores that are not cosine similarities
+   * Scores are scaled to (0, 1] by the best one; unscored tools are only
+   * returned through alwaysInclude, and minScore does not apply.
+   */
+  private selectToolsByScore(scores: Map<string, number>, options: Required<FilterOptions>): ScoredTool[] {
+    let maxScore = 0;
+    for (const score of scores.values()) {
+      maxScore = Math.max(maxScore, score);
+    }
+
+    const excludeSet = new Set(options.exclude);
+    const tools: ToolWithMetadata[] = [];
+    const rows: number[] = [];
+    const scaled: number[] = [];
+    for (const [toolKey, metadata] of this.toolMetadata) {
+      if (excludeSet.has(metadata.tool.name)) continue;
+      rows.push(tools.length);
+      tools.push(metadata);
+      scaled.push(maxScore > 0 ? (scores.get(toolKey) ?? 0) / maxScore : 0);
+    }
+
+    const table: ScoreTable = { rows, toolAt: row => tools[row], scores: Float32Array.from(scaled) };
+    return this.selectTools(table, { ...options, minScore: Number.MIN_VALUE });
+  }
+
+  /**
+   * Pick the servers whose tools should be scored (hierarchical mode)
+   * @returns undefined when hierarchical filtering is disabled
+   */
+  private selectServers(
+    contextEmbedding: Float32Array
+  ): { serverIds: string[]; fullScanFallback: boolean } | undefined {
+    const hierarchical = this.config.hierarchical;
+    if (!hierarchical) return undefined;
+
+    const serverScores: Array<{ serverId: string; score: number }> = [];
+    for (const [serverId, serverEmbedding] of this.serverEmbeddings) {
+      serverScores.push({ serverId, score: dotProduct(contextEmbedding, serverEmbedding) });
+    }
+
+    const topServers = partialSort(serverScores, hierarchical.topServers ?? 3, s => s.score);
+    const bestScore = topServers.length > 0 ? topServers[0].score : -Infinity;
+
+    return {
+      serverIds: topServers.map(s => s.serverId),
+      fullScanFallback: bestScore < (hierarchical.minServerScore ?? 0.2),
+    };
+  }
+
+  /**
+   * Whether filter() scores a candidate set (ANN or quantized first pass)
+   * instead of every tool
+   */
+  private usesCandidateSearch(): boolean {
+    if (this.quantizedEmbeddings) return true;
+    return this.annIndex !== undefined &&
+      this.toolMetadata.size >= (this.config.ann!.exactSearchThreshold ?? 2000);
+  }
+
+  /**
+   * Compute similarity scores for all tools with the matrix kernel
+   * Synchronous on purpose: scores land in a buffer shared across calls, so
+   * selection must run before another filter() call can score.
+   */
+  private computeSimilarities(
+    contextEmbedding: Float32Array,
+    contextString: string,
+    options: Required<FilterOptions>,
+    serverIds?: Set<string>
+  ): SimilarityResult {
+    const matrix = this.toolEmbeddings;
+    const excludeSet = new Set(options.exclude); // Pre-convert to Set for O(1) lookup
+    const alwaysIncludeSet = new Set(options.alwaysInclude);
+    const rows: number[] = [];
+    let toolsSkipped = 0;
+
+    for (let row = 0; row < matrix.size; row++) {
+      const metadata = matrix.itemAt(row);
+
+      // Skip excluded tools (O(1) lookup)
+      if (excludeSet.has(metadata.tool.name)) {
+        continue;
+      }
+
+      // Skip tools of unselected servers, except those that must always be included
+      if (serverIds && !serverIds.has(metadata.serverId) && !alwaysIncludeSet.has(metadata.tool.name)) {
+        toolsSkipped++;
+        continue;
+      }
+
+      rows.push(row);
+    }
+
+    // Cosine similarity (dot product of normalized vectors); skipped rows are never scored
+    if (this.scoreBuffer.length < matrix.size) {
+      this.scoreBuffer = new Float32Array(matrix.capacity);
+    }
+    matrix.score(contextEmbedding, this.scoreBuffer, rows.length === matrix.size ? undefined : rows);
+
+    const table: ScoreTable = { rows, toolAt: row => matrix.itemAt(row), scores: this.scoreBuffer };
+    const lexicalScores = this.config.hybridSearch ? this.lexicalIndex!.score(contextString) : undefined;
+    if (lexicalScores) {
+      this.fuseLexicalScores(table, lexicalScores, toolKey => matrix.indexOf(toolKey));
+    }
+
+    return { table, toolsEvaluated: matrix.size - toolsSkipped, toolsSkipped, approximate: false };
+  }
+
+  /**
+   * Score tools against each message; a tool keeps its best weighted score (maxScore mode)
+   * Weights are scaled so that the heaviest message counts fully.
+   */
+  private async computeMaxSimilarities(
+    queries: MessageQuery[],
+    contextString: string,
+    options: Required<FilterOptions>,
+    serverIds?: Set<string>
+  ): Promise<SimilarityResult> {
+    const maxWeight = Math.max(...queries.map(query => query.weight));
+    const best = new Map<string, { metadata: ToolWithMetadata; score: number; semantic: number; lexical: number }>();
+    let toolsEvaluated = 0;
+    let toolsSkipped = 0;
+    let approximate = false;
+
+    for (const query of queries) {
+      const result = this.usesCandidateSearch()
+        ? await this.computeCandidateSimilarities(query.embedding, contextString, options, serverIds)
+        : this.computeSimilarities(query.embedding, contextString, options, serverIds);
+
+      // Read exact scores before anything else can overwrite the shared score buffer
+      const { table } = result;
+      const scale = query.weight / maxWeight;
+      for (const row of table.rows) {
+        const metadata = table.toolAt(row);
+        const score = table.scores[row] * scale;
+        const toolKey = this.getToolKey(metadata.serverId, metadata.tool.name);
+        const current = best.get(toolKey);
+        if (current === undefined || score > current.score) {
+          best.set(toolKey, {
+            metadata,
+            score,
+            semantic: (table.semanticScores?.[row] ?? 0) * scale,
+            lexical: table.lexicalScores?.[row] ?? 0,
+          });
+        }
+      }
+
+      toolsEvaluated = Math.max(toolsEvaluated, result.toolsEvaluated);
+      toolsSkipped = result.toolsSkipped;
+      approximate = result.approximate;
+    }
+
+    const entries = [...best.values()];
+    const table: ScoreTable = {
+      rows: entries.map((_, i) => i),
+      toolAt: row => entries[row].metadata,
+      scores: Float32Array.from(entries, entry => entry.score),
+    };
+    if (this.config.hybridSearch) {
+      table.semanticScores = Float32Array.from(entries, entry => entry.semantic);
+      table.lexicalScores = Float32Array.from(entries, entry => entry.lexical);
+    }
+
+    return { table, toolsEvaluated, toolsSkipped, approximate };
+  }
+
+  /**
+   * Compute similarity scores for the candidates of the ANN index, or of the
+   * quantized first pass
+   */
+  private async computeCandidateSimilarities(
+    contextEmbedding: Float32Array,
+    contextString: string,
+    options: Required<FilterOptions>,
+    serverIds?: Set<string>
+  ): Promise<SimilarityResult> {
+    const lexicalScores = this.config.hybridSearch ? this.lexicalIndex!.score(contextString) : undefined;
+    const excludeSet = new Set(options.exclude);
+    const accept = (toolKey: string): boolean => {
+      const metadata = this.toolMetadata.get(toolKey)!;
+      return !excludeSet.has(metadata.tool.name) && (!serverIds || serverIds.has(metadata.serverId));
+    };
+
+    if (!this.quantizedEmbeddings) {
+      const efSearch = this.config.ann!.efSearch ?? 50;
+      const nearest = this.annIndex!.search(contextEmbedding, Math.max(options.topK, efSearch), efSearch, accept);
+
+      let toolsSkipped = 0;
+      if (serverIds) {
+        for (const [serverId, server] of this.servers) {
+          if (!serverIds.has(serverId)) toolsSkipped += server.tools.length;
+        }
+      }
+
+      const table = await this.scoreCandidates(
+        contextEmbedding,
+        nearest.map(n => n.key),
+        options,
+        accept,
+        lexicalScores
+      );
+      return { table, toolsEvaluated: table.rows.length, toolsSkipped, approximate: true };
+    }
+
+    // Quantized first pass over every eligible tool
+    const query = this.quantizedEmbeddings.prepareQuery(contextEmbedding);
+    const firstPass: Array<{ toolKey: string; score: number }> = [];
+    let toolsSkipped = 0;
+
+    for (const [toolKey, metadata] of this.toolMetadata) {
+      if (excludeSet.has(metadata.tool.name)) continue;
+      if (serverIds && !serverIds.has(metadata.serverId)) {
+        toolsSkipped++;
+        continue;
+      }
+      firstPass.push({ toolKey, score: this.quantizedEmbeddings.score(query, toolKey) });
+    }
+    const toolsEvaluated = this.toolMetadata.size - toolsSkipped;
+
+    const quantization = this.config.quantization!;
+    const sampleInterval = quantization.recallSampleInterval ?? 50;
+    const sampled = sampleInterval > 0 && this.queryCount++ % sampleInterval === 0;
+    const exactCutoff = sampled
+      ? this.findExactCutoff(contextEmbedding, firstPass.map(c => c.toolKey), options.topK)
+      : undefined;
+
+    const rescoreCandidates = quantization.rescoreCandidates ?? Math.max(4 * options.topK, 50);
+    const candidateKeys = partialSort(firstPass, rescoreCandidates, c => c.score).map(c => c.toolKey);
+    const table = await this.scoreCandidates(contextEmbedding, candidateKeys, options, accept, lexicalScores);
+
+    const exact = await exactCutoff;
+    if (exact) {
+      this.recordRecall(exact, table, candidateKeys.length);
+    }
+
+    return { table, toolsEvaluated, toolsSkipped, approximate: true };
+  }
+
+  /**
+   * Score a candidate set at full precision: the given tools, always-included
+   * tools, and (in hybrid mode) the best lexical matches
+   */
+  private async scoreCandidates(
+    contextEmbedding: Float32Array,
+    candidateKeys: string[],
+    options: Required<FilterOptions>,
+    accept: (toolKey: string) => boolean,
+    lexicalScores: Map<string, number> | undefined
+  ): Promise<ScoreTable> {
+    const excludeSet = new Set(options.exclude);
+    const alwaysIncludeSet = new Set(options.alwaysInclude);
+    const candidates = new Set(candidateKeys);
+
+    // Name lookups are cheap next to dot products, so a scan for these is fine
+    if (alwaysIncludeSet.size > 0) {
+      for (const [toolKey, metadata] of this.toolMetadata) {
+        if (alwaysIncludeSet.has(metadata.tool.name) && !excludeSet.has(metadata.tool.name)) {
+          candidates.add(toolKey);
+        }
+      }
+    }
+
+    if (lexicalScores) {
+      const lexicalMatches = [...lexicalScores].filter(([toolKey]) => !candidates.has(toolKey) && accept(toolKey));
+      for (const [toolKey] of partialSort(lexicalMatches, options.topK, ([, score]) => score)) {
+        candidates.add(toolKey);
+      }
+    }
+
+    // candidateKeys keep their order at the start of the table (see recordRecall)
+    const keys = [...candidates];
+    const tools = keys.map(toolKey => this.toolMetadata.get(toolKey)!);
+    const embeddings = await this.getFullPrecisionEmbeddings(keys, tools);
+
+    const scores = new Float32Array(keys.length);
+    for (let i = 0; i < keys.length; i++) {
+      scores[i] = dotProduct(contextEmbedding, embeddings[i]);
+    }
+
+    const table: ScoreTable = { rows: keys.map((_, i) => i), toolAt: row => tools[row], scores };
+    if (lexicalScores) {
+      const positions = new Map(keys.map((toolKey, i) => [toolKey, i]));
+      this.fuseLexicalScores(table, lexicalScores, toolKey => positions.get(toolKey));
+    }
+    return table;
+  }
+
+  /**
+   * Score the given tools exactly at full precision (recall sampling)
+   * Without full-precision vectors in memory they are read from the embedding
+   * store; the sample is skipped if any is missing rather than re-embedding
+   * the catalog on the request path.
+   * @returns The size of the exact top-K and the lowest score in it, or undefined if skipped
+   */
+  private async findExactCutoff(
+    contextEmbedding: Float32Array,
+    toolKeys: string[],
+    topK: number
+  ): Promise<{ count: number; cutoff: number } | undefined> {
+    let scores: number[];
+    if (this.keepFullPrecision) {
+      const matrix = this.toolEmbeddings;
+      const rows = toolKeys.map(toolKey => matrix.indexOf(toolKey)!);
+      const buffer = new Float32Array(matrix.size);
+      matrix.score(contextEmbedding, buffer, rows);
+      scores = rows.map(row => buffer[row]);
+    } else {
+      const descriptions = toolKeys.map(toolKey => this.toolMetadata.get(toolKey)!.description);
+      const stored = await this.readEmbeddingStore(this.truncateDocuments(descriptions), 'document');
+      if (stored.some(embedding => embedding === undefined)) {
+        this.log('Recall sample skipped: embedding store is missing full-precision vectors');
+        return undefined;
+      }
+      scores = stored.map(embedding => dotProduct(contextEmbedding, embedding!));
+    }
+
+    const top = partialSort(scores, topK, score => score);
+    return { count: top.length, cutoff: top[top.length - 1] ?? Infinity };
+  }
+
+  /**
+   * Record which share of the exact top-K the quantized first pass kept as candidates
+   * Counted by score, so ties at the cutoff do not matter.
+   * @param candidateCount - The first rows of the table hold the first-pass candidates
+   */
+  private recordRecall(exact: { count: number; cutoff: number }, table: ScoreTable, candidateCount: number): void {
+    if (exact.count === 0) return;
+
+    const semantic = table.semanticScores ?? table.scores;
+    let found = 0;
+    for (let row = 0; row < candidateCount; row++) {
+      if (semantic[row] >= exact.cutoff - 1e-6) found++;
+    }
+
+    this.recallSamples.push(Math.min(found, exact.count) / exact.count);
+    if (this.recallSamples.length > this.MAX_RECALL_SAMPLES) {
+      this.recallSamples.shift();
+    }
+  }
+
+  /**
+   * Get full-precision embeddings, from memory or from the embedding store
+   * Tools evicted from the store are re-embedded.
+   */
+  private async getFullPrecisionEmbeddings(
+    toolKeys: string[],
+    metadata: ToolWithMetadata[]
+  ): Promise<Float32Array[]> {
+    if (this.keepFullPrecision) {
+      return toolKeys.map(toolKey => this.toolEmbeddings.get(toolKey)!);
+    }
+    return this.embedDocuments(
+      metadata.map(m => m.description),
+      toolKeys.map(toolKey => ({ kind: 'tool', toolKey }))
+    );
+  }
+
+  /**
+   * Fuse BM25 scores into the cosine scores of a score table (hybrid search)
+   * @param rowOf - Maps a tool key to its table row, if the table has one
+   */
+  private fuseLexicalScores(
+    table: ScoreTable,
+    lexicalMatches: Map<string, number>,
+    rowOf: (toolKey: string) => number | undefined
+  ): void {
+    const hybrid = this.config.hybridSearch!;
+    const semantic = table.scores;
+    const lexical = new Float32Array(semantic.length);
+    const fused = new Float32Array(semantic.length);
+
+    for (const [toolKey, score] of lexicalMatches) {
+      const row = rowOf(toolKey);
+      if (row !== undefined) lexical[row] = score;
+    }
+
+    table.semanticScores = semantic;
+    table.lexicalScores = lexical;
+    table.scores = fused;
+
+    let maxLexical = 0;
+    for (const row of table.rows) {
+      maxLexical = Math.max(maxLexical, lexical[row]);
+    }
+
+    if (hybrid.fusion === 'rrf') {
+      // Reciprocal rank fusion; tools without a lexical match only get the semantic term
+      const k = hybrid.rrfK ?? 60;
+
+      const bySemantic = [...table.rows].sort((a, b) => semantic[b] - semantic[a]);
+      bySemantic.forEach((row, rank) => { fused[row] = 1 / (k + rank + 1); });
+
+      const byLexical = table.rows
+        .filter(row => lexical[row] > 0)
+        .sort((a, b) => lexical[b] - lexical[a]);
+      byLexical.forEach((row, rank) => { fused[row] += 1 / (k + rank + 1); });
+
+      // Scale so that rank 1 in both lists scores 1
+      const maxFused = 2 / (k + 1);
+      for (const row of table.rows) {
+        fused[row] /= maxFused;
+      }
+      return;
+    }
+
+    // Weighted sum; without any lexical match the cosine score stands alone
+    const weight = maxLexical === 0 ? 0 : hybrid.lexicalWeight ?? 0.3;
+    for (const row of table.rows) {
+      fused[row] = maxLexical === 0
+        ? semantic[row]
+        : (1 - weight) * semantic[row] + weight * (lexical[row] / maxLexical);
+    }
+  }
+
+  /**
+   * Raise the scores of recently called tools, and of the other tools on their servers
+   */
+  private boostRecentTools(table: ScoreTable, recentTools: string[], options: RecentToolsOptions): void {
+    const boost = options.boost ?? 0;
+    const serverBoost = options.serverBoost ?? 0;
+    if (boost === 0 && serverBoost === 0) return;
+
+    const called = new Set(recentTools);
+    const calledServers = new Set<string>();
+    for (const [serverId, server] of this.servers) {
+      if (server.tools.some(tool => called.has(tool.name))) calledServers.add(serverId);
+    }
+
+    for (const row of table.rows) {
+      const metadata = table.toolAt(row);
+      if (called.has(metadata.tool.name)) {
+        table.scores[row] += boost;
+      } else if (calledServers.has(metadata.serverId)) {
+        table.scores[row] += serverBoost;
+      }
+    }
+  }
+
+  /**
+   * Select and rank tools based on scores
+   * Works on row indexes; ScoredTool objects are only built for returned tools
+   */
+  private selectTools(
+    table: ScoreTable,
+    options: Required<FilterOptions>
+  ): ScoredTool[] {
+    // Separate always-include tools and filter by minScore in one pass
+    const alwaysIncludeSet = new Set(options.alwaysInclude);
+    const alwaysIncluded: number[] = [];
+    const scoredRows: number[] = [];
+    const scores = table.scores;
+
+    for (const row of table.rows) {
+      if (alwaysIncludeSet.has(table.toolAt(row).tool.name)) {
+        alwaysIncluded.push(row);
+      } else if (scores[row] >= options.minScore) {
+        scoredRows.push(row);
+      }
+    }
+
+    // Get top K from scored tools using heap-based selection (O(n log k))
+    const remainingSlots = Math.max(0, options.topK - alwaysIncluded.length);
+    const topScored = partialSort(scoredRows, remainingSlots, row => scores[row]);
+
+    // Combine: always-included first, then top scored
+    return [...alwaysIncluded, ...topScored].map(row => {
+      const metadata = table.toolAt(row);
+      return {
+        serverId: metadata.serverId,
+        toolName: metadata.tool.name,
+        tool: metadata.tool,
+        score: scores[row],
+        ...(table.semanticScores && {
+          semanticScore: table.semanticScores[row],
+          lexicalScore: table.lexicalScores![row],
+        }),
+      };
+    });
+  }
+
+  /**
+   * Generate unique key for a tool
+   */
+  private getToolKey(serverId: string, toolName: string): string {
+    return `${serverId}::${toolName}`;
+  }
+
+  /**
+   * Embed tools, reusing existing embeddings where possible
+   * @param tools - Tools to embed
+   * @param reuse - Looks up a reusable normalized embedding for a tool. Defaults to
+   *   the current index entry when its description is unchanged.
+   * @returns Normalized embeddings in the same order as the input tools
+   */
+  private async embedTools(
+    tools: ToolWithMetadata[],
+    reuse: (toolKey: string, tool: ToolWithMetadata) => Float32Array | undefined =
+      (toolKey, tool) => this.getIndexedEmbedding(toolKey, tool.description)
+  ): Promise<Float32Array[]> {
+    const embeddings: Float32Array[] = new Array(tools.length);
+    const toolKeys = tools.map(tool => this.getToolKey(tool.serverId, tool.tool.name));
+    const pending: number[] = [];
+
+    for (let i = 0; i < tools.length; i++) {
+      const existing = reuse(toolKeys[i], tools[i]);
+
+      if (existing !== undefined) {
+        embeddings[i] = existing;
+      } else {
+        pending.push(i);
+      }
+    }
+
+    if (pending.length > 0) {
+      const embedded = await this.embedDocuments(
+        pending.map(i => tools[i].description),
+        pending.map(i => ({ kind: 'tool', toolKey: toolKeys[i] }))
+      );
+      for (let j = 0; j < pending.length; j++) {
+        embeddings[pending[j]] = embedded[j];
+      }
+    }
+
+    this.log(`Embedded ${pending.length} tools (${tools.length - pending.length} unchanged)`);
+    return embeddings;
+  }
+
+  /**
+   * Stay within the model's input limit; API providers reject longer inputs
+   */
+  private truncateDocuments(texts: string[]): string[] {
+    const limit = this.getInputTokenLimit('document');
+    if (limit === undefined) {
+      return texts;
+    }
+    return texts.map(text => truncateToTokens(text, limit, this.config.tokenizer));
+  }
+
+  /**
+   * Tokens a text of the given role may use: the tokenizer's maxInputTokens
+   * minus the provider's role prefix, or undefined without a limit
+   */
+  private getInputTokenLimit(role: EmbeddingRole): number | undefined {
+    const { tokenizer } = this.config;
+    if (tokenizer?.maxInputTokens === undefined) {
+      return undefined;
+    }
+    const prefix = this.embeddingProvider.getRolePrefix?.(role);
+    return Math.max(0, tokenizer.maxInputTokens - (prefix ? tokenizer.encode(prefix).length : 0));
+  }
+
+  /**
+   * Embed document texts, checking the shared embedding store before the provider
+   * @param subjects - What each text describes, named in validation errors
+   * @returns Normalized embeddings in input order
+   */
+  private async embedDocuments(texts: string[], subjects: EmbeddingSubject[]): Promise<Float32Array[]> {
+    const embeddings: Float32Array[] = new Array(texts.length);
+    texts = this.truncateDocuments(texts);
+
+    const stored = await this.readEmbeddingStore(texts, 'document');
+    const missing: number[] = [];
+    for (let i = 0; i < texts.length; i++) {
+      if (stored[i] !== undefined) {
+        embeddings[i] = stored[i]!;
+      } else {
+        missing.push(i);
+      }
+    }
+
+    if (missing.length > 0) {
+      const missingTexts = missing.map(i => texts[i]);
+      const rawEmbeddings = await this.embeddingProvider.embedBatch(missingTexts, 'document');
+      if (rawEmbeddings.length !== missingTexts.length) {
+        throw new EmbeddingValidationError(
+          'count',
+          subjects[missing[0]],
+          `Embedding provider returned ${rawEmbeddings.length} embeddings for ${missingTexts.length} texts`
+        );
+      }
+
+      const dimensions = this.getDimensions();
+      for (let j = 0; j < missing.length; j++) {
+        validateEmbedding(rawEmbeddings[j], dimensions, subjects[missing[j]]);
+        embeddings[missing[j]] = normalizeVector(rawEmbeddings[j]);
+      }
+      await this.writeEmbeddingStore(missingTexts, missing.map(i => embeddings[i]), 'document');
+    }
+
+    if (this.config.embeddingStore) {
+      this.log(`Embedding store: ${texts.length - missing.length}/${texts.length} documents found`);
+    }
+    return embeddings;
+  }
+
+  /**
+   * Look up normalized embeddings in the configured embedding store
+   * Store failures are logged and treated as misses.
+   */
+  private async readEmbeddingStore(
+    texts: string[],
+    role: EmbeddingRole
+  ): Promise<Array<Float32Array | undefined>> {
+    const store = this.config.embeddingStore;
+    if (!store || texts.length === 0) {
+      return new Array(texts.length).fill(undefined);
+    }
+
+    try {
+      return await store.getMany(texts.map(text => this.getStoreKey(text, role)));
+    } catch (error) {
+      this.log('Embedding store read failed:', error);
+      return new Array(texts.length).fill(undefined);
+    }
+  }
+
+  /**
+   * Save normalized embeddings to the configured embedding store
+   */
+  private async writeEmbeddingStore(
+    texts: string[],
+    embeddings: Float32Array[],
+    role: EmbeddingRole
+  ): Promise<void> {
+    const store = this.config.embeddingStore;
+    if (!store) return;
+
+    try {
+      await store.setMany(texts.map((text, i) => ({
+        key: this.getStoreKey(text, role),
+        embedding: embeddings[i],
+      })));
+    } catch (error) {
+      this.log('Embedding store write failed:', error);
+    }
+  }
+
+  /**
+   * Dimensions of the index, or the provider's until the index is built
+   */
+  private getDimensions(): number {
+    return this.dimensions ?? this.embeddingProvider.getDimensions();
+  }
+
+  private getStoreKey(text: string, role: EmbeddingRole): EmbeddingStoreKey {
+    return {
+      provider: this.providerName,
+      model: this.embeddingProvider.getModel(),
+      dimensions: this.getDimensions(),
+      role,
+      textHash: sha256(text),
+    };
+  }
+
+  /**
+   * Get the indexed embedding for a tool if its description is unchanged
+   */
+  private getIndexedEmbedding(toolKey: string, description: string): Float32Array | undefined {
+    const existing = this.toolMetadata.get(toolKey);
+    if (existing === undefined || existing.description !== description) {
+      return undefined;
+    }
+    return this.toolEmbeddings.get(toolKey);
+  }
+
+  /**
+   * Replace the whole index at once
+   */
+  private replaceIndex(
+    servers: MCPServer[],
+    tools: ToolWithMetadata[],
+    embeddings: Float32Array[],
+    serverTexts: Map<string, { description: string; embedding: Float32Array }>
+  ): void {
+    this.toolEmbeddings = new EmbeddingMatrix();
+    this.toolMetadata = new Map();
+    this.lexicalIndex?.clear();
+    this.quantizedEmbeddings?.clear();
+
+    // Keep graph nodes whose vectors are reused; setIndexEntry skips re-inserting them
+    if (this.annIndex) {
+      const nextKeys = new Set(tools.map(tool => this.getToolKey(tool.serverId, tool.tool.name)));
+      for (const toolKey of this.annIndex.keys()) {
+        if (!nextKeys.has(toolKey)) this.annIndex.delete(toolKey);
+      }
+    }
+
+    for (let i = 0; i < tools.length; i++) {
+      const toolKey = this.getToolKey(tools[i].serverId, tools[i].tool.name);
+      this.setIndexEntry(toolKey, tools[i], embeddings[i]);
+    }
+
+    this.servers = new Map(servers.map(server => [server.id, server]));
+    this.serverTextEmbeddings = serverTexts;
+    this.serverEmbeddings = new Map();
+    this.updateServerEmbeddings();
+    this.initialized = true;
+  }
+
+  /**
+   * Embed server descriptions for hierarchical filtering, reusing unchanged ones
+   * @returns Empty when hierarchical filtering is disabled
+   */
+  private async embedServerTexts(
+    servers: MCPServer[]
+  ): Promise<Map<string, { description: string; embedding: Float32Array }>> {
+    const serverTexts = new Map<string, { description: string; embedding: Float32Array }>();
+    if (!this.config.hierarchical) return serverTexts;
+
+    const pending: Array<{ serverId: string; description: string }> = [];
+    for (const server of servers) {
+      const description = generateServerDescription(server);
+      const existing = this.serverTextEmbeddings.get(server.id);
+
+      if (existing !== undefined && existing.description === description) {
+        serverTexts.set(server.id, existing);
+      } else {
+        pending.push({ serverId: server.id, description });
+      }
+    }
+
+    if (pending.length > 0) {
+      const embeddings = await this.embedDocuments(
+        pending.map(p => p.description),
+        pending.map(p => ({ kind: 'server', serverId: p.serverId }))
+      );
+      pending.forEach((p, i) => {
+        serverTexts.set(p.serverId, { description: p.description, embedding: embeddings[i] });
+      });
+    }
+
+    return serverTexts;
+  }
+
+  /**
+   * Recompute server embeddings as the average of the server text embedding
+   * and the centroid of the server's tool embeddings
+   * @param serverIds - Servers to update (default: all)
+   */
+  private updateServerEmbeddings(serverIds?: Set<string>): void {
+    if (!this.config.hierarchical) return;
+
+    const centroids = new Map<string, Float32Array>();
+    for (const [toolKey, metadata] of this.toolMetadata) {
+      if (serverIds && !serverIds.has(metadata.serverId)) continue;
+
+      // Without full-precision vectors in memory, the quantized approximation is close enough
+      const row = this.toolEmbeddings.indexOf(toolKey);
+      const toolEmbedding = row !== undefined
+        ? this.toolEmbeddings.viewAt(row)
+        : this.quantizedEmbeddings!.dequantize(toolKey)!;
+      let centroid = centroids.get(metadata.serverId);
+      if (!centroid) {
+        centroid = new Float32Array(toolEmbedding.length);
+        centroids.set(metadata.serverId, centroid);
+      }
+      for (let i = 0; i < toolEmbedding.length; i++) {
+        centroid[i] += toolEmbedding[i];
+      }
+    }
+
+    for (const [serverId, { embedding }] of this.serverTextEmbeddings) {
+      if (serverIds && !serverIds.has(serverId)) continue;
+
+      const combined = new Float32Array(embedding);
+      const centroid = centroids.get(serverId);
+      if (centroid) {
+        normalizeVector(centroid, true);
+        for (let i = 0; i < combined.length; i++) {
+          combined[i] += centroid[i];
+        }
+      }
+      this.serverEmbeddings.set(serverId, normalizeVector(combined, true));
+    }
+  }
+
+  /**
+   * Add or replace one tool in every index structure
+   */
+  private setIndexEntry(toolKey: string, tool: ToolWithMetadata, embedding: Float32Array): void {
+    if (this.keepFullPrecision) {
+      this.toolEmbeddings.set(toolKey, embedding, tool);
+    }
+    this.toolMetadata.set(toolKey, tool);
+    this.lexicalIndex?.set(toolKey, buildLexicalDocument(tool.tool));
+    this.quantizedEmbeddings?.set(toolKey, embedding);
+    this.annIndex?.add(toolKey, embedding);
+  }
+
+  /**
+   * Remove one tool from every index structure
+   */
+  private deleteIndexEntry(toolKey: string): void {
+    this.toolEmbeddings.delete(toolKey);
+    this.toolMetadata.delete(toolKey);
+    this.lexicalIndex?.delete(toolKey);
+    this.annIndex?.delete(toolKey);
+    this.quantizedEmbeddings?.delete(toolKey);
+  }
+
+  /**
+   * Bring the index in line with a server definition
+   * Embedding happens first; the index is then updated synchronously so
+   * concurrent filter() calls see either the old or the new state, never a mix.
+   */
+  private async syncServer(server: MCPServer): Promise<void> {
+    const includeServerDesc = this.config.includeServerDescription ?? false;
+    const tools = extractToolsWithMetadata([server], includeServerDesc);
+    const embeddings = await this.embedTools(tools);
+    const serverTexts = await this.embedServerTexts([server]);
+
+    const nextKeys = new Set<string>();
+    for (let i = 0; i < tools.length; i++) {
+      const toolKey = this.getToolKey(server.id, tools[i].tool.name);
+      nextKeys.add(toolKey);
+      this.setIndexEntry(toolKey, tools[i], embeddings[i]);
+    }
+
+    for (const [toolKey, metadata] of this.toolMetadata) {
+      if (metadata.serverId === server.id && !nextKeys.has(toolKey)) {
+        this.deleteIndexEntry(toolKey);
+      }
+    }
+
+    this.servers.set(server.id, server);
+    const serverText = serverTexts.get(server.id);
+    if (serverText) {
+      this.serverTextEmbeddings.set(server.id, serverText);
+      this.updateServerEmbeddings(new Set([server.id]));
+    }
+    this.log(`Synced server ${server.id} (${tools.length} tools)`);
+  }
+
+  /**
+   * Run an index mutation after all previously queued mutations have settled
+   * @param changesServers - Whether backup indexes must resync afterwards
+   */
+  private enqueueMutation<T>(mutation: () => Promise<T>, changesServers: boolean = true): Promise<T> {
+    const result = this.mutationQueue.then(() => {
+      if (changesServers) this.indexVersion++;
+      return mutation();
+    });
+    this.mutationQueue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  private getServerOrThrow(serverId: string): MCPServer {
+    const server = this.servers.get(serverId);
+    if (!server) {
+      throw new Error(`Unknown server "${serverId}"`);
+    }
+    return server;
+  }
+
+  private assertInitialized(): void {
+    if (!this.initialized) {
+      throw new Error('MCPToolFilter not initialized. Call initialize() first.');
+    }
+  }
+
+  /**
+   * Release the embedding provider's resources (e.g. local worker threads)
+   * Providers passed in as instances are left to their owner.
+   */
+  async dispose(): Promise<void> {
+    if (this.ownsProvider) {
+      await (this.fallbackProvider ?? this.embeddingProvider).dispose?.();
+    }
+  }
+
+  /**
+   * Clear all caches
+   */
+  clearCache(): void {
+    this.contextCache.clear();
+    for (const space of this.fallbackSpaces) {
+      space.filter.clearCache();
+    }
+    this.log('Caches cleared');
+  }
+
+  /**
+   * Get initialization status
+   */
+  isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  /**
+   * Get stats about loaded tools
+   */
+  getStats() {
+    return {
+      initialized: this.initialized,
+      toolCount: this.toolMetadata.size,
+      serverCount: this.servers.size,
+      cacheSize: this.contextCache.size,
+      embeddingDimensions: this.getDimensions(),
+      embeddingStore: this.config.embeddingStore?.getStats(),
+      annIndex: this.annIndex?.getStats(),
+      quantization: this.quantizedEmbeddings && {
+        type: this.quantizedEmbeddings.type,
+        bytes: this.quantizedEmbeddings.getBytes(),
+        fullPrecisionInMemory: this.keepFullPrecision,
+        sampledQueries: this.recallSamples.length,
+        recall: this.recallSamples.length > 0
+          ? this.recallSamples.reduce((sum, recall) => sum + recall, 0) / this.recallSamples.length
+          : undefined,
+      },
+      fallback: this.fallbackProvider && {
+        primaryStale: this.primaryStale,
+        providers: this.fallbackProvider.getHealth(),
+      },
     };
   }
 
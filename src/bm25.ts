@@ -0,0 +1,133 @@
+import { MCPTool } from './types.js';
+import { tokenize } from './utils.js';
+
+/**
+ * Incremental BM25 index over tool text
+ * Supports adding and removing documents without a rebuild, so it can follow
+ * incremental tool updates.
+ */
+export class BM25Index {
+  private k1: number;
+  private b: number;
+
+  // Term frequencies per document
+  private documents: Map<string, Map<string, number>> = new Map();
+  private documentLengths: Map<string, number> = new Map();
+  private totalLength: number = 0;
+
+  // Documents containing each term (its size is the document frequency)
+  private postings: Map<string, Set<string>> = new Map();
+
+  constructor(options: { k1?: number; b?: number } = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  /**
+   * Add a document, replacing any existing document with the same key
+   */
+  set(key: string, text: string): void {
+    this.delete(key);
+
+    const tokens = tokenize(text);
+    const termFrequencies = new Map<string, number>();
+    for (const token of tokens) {
+      termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1);
+    }
+
+    for (const term of termFrequencies.keys()) {
+      let keys = this.postings.get(term);
+      if (!keys) {
+        keys = new Set();
+        this.postings.set(term, keys);
+      }
+      keys.add(key);
+    }
+
+    this.documents.set(key, termFrequencies);
+    this.documentLengths.set(key, tokens.length);
+    this.totalLength += tokens.length;
+  }
+
+  /**
+   * Remove a document
+   * @returns true if the document was indexed
+   */
+  delete(key: string): boolean {
+    const termFrequencies = this.documents.get(key);
+    if (!termFrequencies) return false;
+
+    for (const term of termFrequencies.keys()) {
+      const keys = this.postings.get(term)!;
+      keys.delete(key);
+      if (keys.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.totalLength -= this.documentLengths.get(key)!;
+    this.documents.delete(key);
+    this.documentLengths.delete(key);
+    return true;
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.documentLengths.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Score all documents that share at least one term with the query
+   * @returns BM25 scores keyed by document; documents without a match are omitted
+   */
+  score(query: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    const documentCount = this.documents.size;
+    if (documentCount === 0) return scores;
+
+    const averageLength = this.totalLength / documentCount || 1;
+
+    for (const term of new Set(tokenize(query))) {
+      const keys = this.postings.get(term);
+      if (!keys) continue;
+
+      const idf = Math.log(1 + (documentCount - keys.size + 0.5) / (keys.size + 0.5));
+
+      for (const key of keys) {
+        const tf = this.documents.get(key)!.get(term)!;
+        const lengthNorm = 1 - this.b + this.b * this.documentLengths.get(key)! / averageLength;
+        const termScore = idf * (tf * (this.k1 + 1)) / (tf + this.k1 * lengthNorm);
+        scores.set(key, (scores.get(key) || 0) + termScore);
+      }
+    }
+
+    return scores;
+  }
+}
+
+/**
+ * Build the text indexed for a tool: name, description, keywords, category and parameter names
+ */
+export function buildLexicalDocument(tool: MCPTool): string {
+  const parts: string[] = [tool.name, tool.description];
+
+  if (tool.keywords && tool.keywords.length > 0) {
+    parts.push(tool.keywords.join(' '));
+  }
+
+  if (tool.category) {
+    parts.push(tool.category);
+  }
+
+  if (tool.inputSchema && tool.inputSchema.properties) {
+    parts.push(Object.keys(tool.inputSchema.properties).join(' '));
+  }
+
+  return parts.join(' ');
+}
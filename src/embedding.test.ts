@@ -0,0 +1,558 @@
+/**
+ * Tests for embedding providers against a local mock HTTP server
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createEmbeddingProvider, registerEmbeddingProvider } from '../src';
+import { embedTexts } from '../src/localInference';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+type Handler = (request: RecordedRequest, res: ServerResponse) => void;
+
+/**
+ * Start a mock server that records JSON requests and delegates responses to a handler
+ */
+async function startMockServer(handler: Handler) {
+  const requests: RecordedRequest[] = [];
+
+  const server: Server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const request = {
+        method: req.method!,
+        url: req.url!,
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : undefined,
+      };
+      requests.push(request);
+      handler(request, res);
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+function sendJson(res: ServerResponse, status: number, body: any): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+describe('WorkersAIEmbeddingProvider', () => {
+  test('should probe the real dimensions on initialize', async () => {
+    const mock = await startMockServer((request, res) => {
+      const inputs: string[] = Array.isArray(request.body.input) ? request.body.input : [request.body.input];
+      sendJson(res, 200, { data: inputs.map(() => ({ embedding: [0.1, 0.2, 0.3, 0.4] })) });
+    });
+
+    try {
+      const provider = createEmbeddingProvider({
+        provider: 'openai',
+        apiKey: 'test-key',
+        model: '@cf/baai/bge-small-en-v1.5',
+        baseURL: mock.url,
+      });
+      expect(provider.getDimensions()).toBe(768);
+
+      await provider.initialize!();
+      await provider.initialize!();
+
+      expect(provider.getDimensions()).toBe(4);
+      expect(mock.requests).toHaveLength(1);
+    } finally {
+      await mock.close();
+    }
+  });
+});
+
+describe('VoyageEmbeddingProvider', () => {
+  let mock: Awaited<ReturnType<typeof startMockServer>>;
+
+  beforeEach(async () => {
+    mock = await startMockServer((request, res) => {
+      if (request.body.input.includes('fail')) {
+        sendJson(res, 400, { detail: 'bad input' });
+        return;
+      }
+
+      // Return results reversed to check they are reordered by index
+      const data = request.body.input.map((text: string, index: number) => ({
+        object: 'embedding',
+        embedding: [text.length, index, 1],
+        index,
+      }));
+      sendJson(res, 200, { object: 'list', data: data.reverse(), model: request.body.model });
+    });
+  });
+
+  afterEach(async () => {
+    await mock.close();
+  });
+
+  test('should embed context as a query', async () => {
+    const provider = createEmbeddingProvider({
+      provider: 'voyage',
+      apiKey: 'test-key',
+      baseURL: mock.url,
+    });
+
+    const embedding = await provider.embed('hello');
+
+    expect(embedding).toEqual(new Float32Array([5, 0, 1]));
+    expect(mock.requests[0].url).toBe('/embeddings');
+    expect(mock.requests[0].headers.authorization).toBe('Bearer test-key');
+    expect(mock.requests[0].body).toEqual({
+      model: 'voyage-3.5-lite',
+      input: ['hello'],
+      input_type: 'query',
+    });
+  });
+
+  test('should embed tool descriptions as documents in batches', async () => {
+    const provider = createEmbeddingProvider({
+      provider: 'voyage',
+      apiKey: 'test-key',
+      model: 'voyage-3.5',
+      dimensions: 256,
+      baseURL: mock.url,
+    });
+
+    const texts = Array.from({ length: 1500 }, (_, i) => `tool ${i}`);
+    const embeddings = await provider.embedBatch(texts);
+
+    expect(embeddings).toHaveLength(1500);
+    expect(embeddings[1200]).toEqual(new Float32Array(['tool 1200'.length, 200, 1]));
+    expect(mock.requests.map(r => r.body.input.length)).toEqual([1000, 500]);
+    expect(mock.requests[0].body).toMatchObject({
+      model: 'voyage-3.5',
+      input_type: 'document',
+      output_dimension: 256,
+    });
+    expect(provider.getDimensions()).toBe(256);
+  });
+
+  test('should surface API errors', async () => {
+    const provider = createEmbeddingProvider({
+      provider: 'voyage',
+      apiKey: 'test-key',
+      baseURL: mock.url,
+    });
+
+    await expect(provider.embed('fail')).rejects.toThrow('Voyage AI API error: 400');
+  });
+
+  test('should probe the real dimensions on initialize', async () => {
+    const provider = createEmbeddingProvider({
+      provider: 'voyage',
+      apiKey: 'test-key',
+      baseURL: mock.url,
+    });
+    expect(provider.getDimensions()).toBe(1024);
+
+    await provider.initialize!();
+    await provider.initialize!();
+
+    expect(provider.getDimensions()).toBe(3);
+    expect(mock.requests).toHaveLength(1);
+  });
+});
+
+describe('CohereEmbeddingProvider', () => {
+  let mock: Awaited<ReturnType<typeof startMockServer>>;
+
+  beforeEach(async () => {
+    mock = await startMockServer((request, res) => {
+      const [embeddingType] = request.body.embedding_types;
+      const embeddings = request.body.texts.map((text: string) =>
+        embeddingType === 'int8' ? [text.length, -128, 127] : [text.length, 0.5, 1]
+      );
+      sendJson(res, 200, {
+        id: 'test',
+        embeddings: { [embeddingType]: embeddings },
+        texts: request.body.texts,
+      });
+    });
+  });
+
+  afterEach(async () => {
+    await mock.close();
+  });
+
+  test('should embed context with the search_query input type', async () => {
+    const provider = createEmbeddingProvider({
+      provider: 'cohere',
+      apiKey: 'test-key',
+      baseURL: mock.url,
+    });
+
+    const embedding = await provider.embed('hello');
+
+    expect(embedding).toEqual(new Float32Array([5, 0.5, 1]));
+    expect(mock.requests[0].url).toBe('/embed');
+    expect(mock.requests[0].body).toEqual({
+      model: 'embed-english-v3.0',
+      texts: ['hello'],
+      input_type: 'search_query',
+      embedding_types: ['float'],
+    });
+  });
+
+  test('should chunk documents to 96 texts per request', async () => {
+    const provider = createEmbeddingProvider({
+      provider: 'cohere',
+      apiKey: 'test-key',
+      baseURL: mock.url,
+    });
+
+    const texts = Array.from({ length: 200 }, (_, i) => `tool ${i}`);
+    const embeddings = await provider.embedBatch(texts);
+
+    expect(embeddings).toHaveLength(200);
+    expect(mock.requests.map(r => r.body.texts.length)).toEqual([96, 96, 8]);
+    expect(mock.requests.every(r => r.body.input_type === 'search_document')).toBe(true);
+  });
+
+  test('should request int8 embeddings', async () => {
+    const provider = createEmbeddingProvider({
+      provider: 'cohere',
+      apiKey: 'test-key',
+      baseURL: mock.url,
+      embeddingType: 'int8',
+    });
+
+    const [embedding] = await provider.embedBatch(['abc']);
+
+    expect(embedding).toEqual(new Float32Array([3, -128, 127]));
+    expect(mock.requests[0].body.embedding_types).toEqual(['int8']);
+  });
+
+  test('should probe the real dimensions on initialize', async () => {
+    const light = await startMockServer((request, res) => {
+      sendJson(res, 200, {
+        embeddings: { float: request.body.texts.map(() => Array.from({ length: 384 }, () => 0.1)) },
+      });
+    });
+
+    try {
+      const provider = createEmbeddingProvider({
+        provider: 'cohere',
+        apiKey: 'test-key',
+        model: 'embed-english-light-v3.0',
+        baseURL: light.url,
+      });
+      expect(provider.getDimensions()).toBe(1024);
+
+      await provider.initialize!();
+
+      expect(provider.getDimensions()).toBe(384);
+      expect(await provider.embed('hello')).toHaveLength(384);
+    } finally {
+      await light.close();
+    }
+  });
+});
+
+describe('OllamaEmbeddingProvider', () => {
+  let mock: Awaited<ReturnType<typeof startMockServer>>;
+
+  beforeEach(async () => {
+    mock = await startMockServer((request, res) => {
+      if (request.body.model === 'missing') {
+        sendJson(res, 404, { error: 'model "missing" not found, try pulling it first' });
+        return;
+      }
+      sendJson(res, 200, {
+        model: request.body.model,
+        embeddings: request.body.input.map((text: string) => [text.length, 1, 0]),
+      });
+    });
+  });
+
+  afterEach(async () => {
+    await mock.close();
+  });
+
+  test('should probe dimensions and batch requests to /api/embed', async () => {
+    const provider = createEmbeddingProvider({
+      provider: 'ollama',
+      model: 'mxbai-embed-large',
+      baseURL: mock.url,
+      batchSize: 2,
+      keepAlive: '10m',
+    });
+
+    await provider.initialize!();
+    const embeddings = await provider.embedBatch(['a', 'bb', 'ccc']);
+
+    expect(provider.getDimensions()).toBe(3);
+    expect(embeddings[2]).toEqual(new Float32Array([3, 1, 0]));
+    expect(mock.requests.map(r => r.url)).toEqual(['/api/embed', '/api/embed', '/api/embed']);
+    expect(mock.requests[1].body).toEqual({ model: 'mxbai-embed-large', input: ['a', 'bb'], keep_alive: '10m' });
+    expect(mock.requests[2].body.input).toEqual(['ccc']);
+  });
+
+  test('should apply the nomic prefixes to the default model', async () => {
+    const provider = createEmbeddingProvider({ provider: 'ollama', baseURL: mock.url });
+
+    await provider.embed('hello', 'query');
+
+    expect(mock.requests[0].body).toEqual({ model: 'nomic-embed-text', input: ['search_query: hello'] });
+  });
+
+  test('should surface API errors', async () => {
+    const provider = createEmbeddingProvider({ provider: 'ollama', model: 'missing', baseURL: mock.url });
+
+    await expect(provider.embed('hello')).rejects.toThrow('Ollama API error: 404');
+  });
+});
+
+describe('HTTPEmbeddingProvider', () => {
+  let mock: Awaited<ReturnType<typeof startMockServer>>;
+
+  beforeEach(async () => {
+    mock = await startMockServer((request, res) => {
+      if (request.url === '/embed') {
+        // text-embeddings-inference: a bare list of vectors
+        sendJson(res, 200, request.body.inputs.map((text: string) => [text.length, 0]));
+      } else {
+        sendJson(res, 200, {
+          data: request.body.input.map((text: string, index: number) => ({ embedding: [text.length, index], index })),
+        });
+      }
+    });
+  });
+
+  afterEach(async () => {
+    await mock.close();
+  });
+
+  test('should default to an OpenAI-compatible request and response', async () => {
+    const provider = createEmbeddingProvider({
+      provider: 'http',
+      baseURL: `${mock.url}/v1/`,
+      model: 'bge-small',
+      headers: { Authorization: 'Bearer local' },
+    });
+
+    await provider.initialize!();
+    const embeddings = await provider.embedBatch(['a', 'bb']);
+
+    expect(provider.getDimensions()).toBe(2);
+    expect(embeddings).toEqual([new Float32Array([1, 0]), new Float32Array([2, 1])]);
+    expect(mock.requests[1].url).toBe('/v1/embeddings');
+    expect(mock.requests[1].headers.authorization).toBe('Bearer local');
+    expect(mock.requests[1].body).toEqual({ model: 'bge-small', input: ['a', 'bb'] });
+  });
+
+  test('should fill the body template and read the response path', async () => {
+    const provider = createEmbeddingProvider({
+      provider: 'http',
+      baseURL: mock.url,
+      path: 'embed',
+      bodyTemplate: { inputs: '{input}', truncate: true, options: { mode: '{role}' } },
+      responsePath: '',
+    });
+
+    const embedding = await provider.embed('hello');
+
+    expect(embedding).toEqual(new Float32Array([5, 0]));
+    expect(mock.requests[0].body).toEqual({ inputs: ['hello'], truncate: true, options: { mode: 'query' } });
+  });
+
+  test('should report a response without embeddings at the path', async () => {
+    const provider = createEmbeddingProvider({
+      provider: 'http',
+      baseURL: mock.url,
+      responsePath: 'embeddings',
+    });
+
+    await expect(provider.embed('hello')).rejects.toThrow('no list of embeddings at "embeddings"');
+  });
+
+  test('should require the {input} placeholder', () => {
+    expect(() => createEmbeddingProvider({
+      provider: 'http',
+      baseURL: mock.url,
+      bodyTemplate: { text: 'hello' },
+    })).toThrow('{input}');
+  });
+});
+
+describe('rolePrefixes', () => {
+  let mock: Awaited<ReturnType<typeof startMockServer>>;
+
+  beforeEach(async () => {
+    mock = await startMockServer((request, res) => {
+      const input: string[] = Array.isArray(request.body.input) ? request.body.input : [request.body.input];
+      sendJson(res, 200, { data: input.map(text => ({ embedding: [text.length, 1] })) });
+    });
+  });
+
+  afterEach(async () => {
+    await mock.close();
+  });
+
+  test('should prefix queries and documents differently', async () => {
+    const provider = createEmbeddingProvider({
+      provider: 'openai',
+      apiKey: 'test-key',
+      model: '@cf/baai/bge-base-en-v1.5',
+      baseURL: mock.url,
+      rolePrefixes: { query: 'query: ', document: 'passage: ' },
+    });
+
+    await provider.embed('find emails', 'query');
+    await provider.embedBatch(['Search emails'], 'document');
+
+    expect(mock.requests[0].body.input).toBe('query: find emails');
+    expect(mock.requests[1].body.input).toEqual(['passage: Search emails']);
+  });
+
+  test('should substitute {text} in templates', async () => {
+    const provider = createEmbeddingProvider({
+      provider: 'openai',
+      apiKey: 'test-key',
+      model: '@cf/baai/bge-base-en-v1.5',
+      baseURL: mock.url,
+      rolePrefixes: { query: 'Instruct: find a tool\nQuery: {text}' },
+    });
+
+    await provider.embed('find emails');
+    await provider.embedBatch(['Search emails']);
+
+    expect(mock.requests[0].body.input).toBe('Instruct: find a tool\nQuery: find emails');
+    expect(mock.requests[1].body.input).toEqual(['Search emails']);
+  });
+});
+
+describe('registerEmbeddingProvider', () => {
+  test('should create registered providers by name', async () => {
+    registerEmbeddingProvider('constant', config => ({
+      embed: async () => new Float32Array([config.value as number, 0]),
+      embedBatch: async texts => texts.map(() => new Float32Array([config.value as number, 0])),
+      getDimensions: () => 2,
+      getModel: () => 'constant-model',
+    }));
+
+    const provider = createEmbeddingProvider({ provider: 'custom', factory: 'constant', value: 7 });
+
+    expect(await provider.embed('anything')).toEqual(new Float32Array([7, 0]));
+    expect(provider.getModel()).toBe('constant-model');
+  });
+
+  test('should not let factories shadow built-in providers', () => {
+    registerEmbeddingProvider('hash', () => {
+      throw new Error('unreachable');
+    });
+
+    expect(createEmbeddingProvider({ provider: 'hash' }).getModel()).toBe('feature-hash-v1');
+  });
+
+  test('should reject unknown factories', () => {
+    expect(() => createEmbeddingProvider({ provider: 'custom', factory: 'missing' })).toThrow('Unknown embedding provider factory');
+  });
+});
+
+describe('HashEmbeddingProvider', () => {
+  const cosine = (a: Float32Array, b: Float32Array) => {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return dot / Math.sqrt(normA * normB);
+  };
+
+  test('should be deterministic with configurable dimensions', async () => {
+    const provider = createEmbeddingProvider({ provider: 'hash', dimensions: 64 });
+
+    const first = await provider.embed('Search my emails');
+    const second = await createEmbeddingProvider({ provider: 'hash', dimensions: 64 }).embed('Search my emails');
+
+    expect(first).toHaveLength(64);
+    expect(first).toEqual(second);
+    expect(provider.getDimensions()).toBe(64);
+  });
+
+  test.each([0, -8, 12.5, NaN])('should reject %p dimensions', dimensions => {
+    expect(() => createEmbeddingProvider({ provider: 'hash', dimensions })).toThrow('positive integer');
+  });
+
+  test('should score keyword overlap above unrelated text', async () => {
+    const provider = createEmbeddingProvider({ provider: 'hash' });
+    const [email, calendar] = await provider.embedBatch([
+      'Search emails in your inbox',
+      'List calendar events and meetings',
+    ]);
+    const query = await provider.embed('Find the email about the launch');
+
+    expect(cosine(query, email)).toBeGreaterThan(cosine(query, calendar));
+  });
+
+  test('should split identifiers and ignore stop words and plurals', async () => {
+    const provider = createEmbeddingProvider({ provider: 'hash' });
+
+    const identifier = await provider.embed('createJiraIssues');
+    const words = await provider.embed('the create jira issue');
+
+    expect(identifier).toEqual(words);
+  });
+});
+
+describe('embedTexts', () => {
+  /**
+   * Stand-in for a transformers.js pipeline: embeds each text as
+   * [length, batch size, 1] and records the batches it was called with
+   */
+  const createPipeline = () => {
+    const batches: string[][] = [];
+    const pipeline = async (texts: string[]) => {
+      batches.push(texts);
+      return {
+        dims: [texts.length, 3],
+        data: Float32Array.from(texts.flatMap(text => [text.length, texts.length, 1])),
+      };
+    };
+    return { pipeline, batches };
+  };
+
+  test('should run padded batches of similar length and restore input order', async () => {
+    const { pipeline, batches } = createPipeline();
+    const texts = ['aaaa', 'a', 'aaaaa', 'aa', 'aaa'];
+
+    const embeddings = await embedTexts(pipeline, texts, 2);
+
+    expect(batches).toEqual([['a', 'aa'], ['aaa', 'aaaa'], ['aaaaa']]);
+    expect(embeddings.map(e => Array.from(e))).toEqual([
+      [4, 2, 1],
+      [1, 2, 1],
+      [5, 1, 1],
+      [2, 2, 1],
+      [3, 2, 1],
+    ]);
+  });
+
+  test('should give every vector its own buffer', async () => {
+    const { pipeline } = createPipeline();
+
+    const [first, second] = await embedTexts(pipeline, ['one', 'two'], 8);
+
+    expect(first.buffer).not.toBe(second.buffer);
+    expect(first.byteLength).toBe(first.buffer.byteLength);
+  });
+});
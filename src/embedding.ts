@@ -1,26 +1,79 @@
-import { EmbeddingConfig, LocalEmbeddingConfig, APIEmbeddingConfig } from './types.js';
+import {
+  EmbeddingConfig,
+  LocalEmbeddingConfig,
+  APIEmbeddingConfig,
+  HashEmbeddingConfig,
+  OllamaEmbeddingConfig,
+  HTTPEmbeddingConfig,
+  CustomEmbeddingConfig,
+  FallbackEmbeddingConfig,
+  RolePrefixes,
+} from './types.js';
+import { tokenize } from './utils.js';
+import { RequestPolicy, resolveRequestPolicy, estimateInputTokens } from './requestPolicy.js';
+import { WorkerPool } from './workerPool.js';
+import { loadPipeline, embedTexts } from './localInference.js';
+import { FallbackEmbeddingProvider } from './fallback.js';
+import { Worker } from 'node:worker_threads';
+import { cpus } from 'node:os';
 import OpenAI from 'openai';
 
+/**
+ * What an embedding is used for
+ * Asymmetric models embed search queries (the conversation context) and the
+ * documents they should match (tool descriptions) differently.
+ */
+export type EmbeddingRole = 'query' | 'document';
+
 /**
  * Abstract embedding provider interface
  */
 export interface EmbeddingProvider {
   /**
    * Embed a single text
+   * @param role - Defaults to 'query'; providers without roles ignore it
    */
-  embed(text: string): Promise<Float32Array>;
+  embed(text: string, role?: EmbeddingRole): Promise<Float32Array>;
 
   /**
    * Embed multiple texts in batch
+   * @param role - Defaults to 'document'; providers without roles ignore it
    */
-  embedBatch(texts: string[]): Promise<Float32Array[]>;
+  embedBatch(texts: string[], role?: EmbeddingRole): Promise<Float32Array[]>;
 
   /**
    * Get the dimension of embeddings
    */
   getDimensions(): number;
+
+  /**
+   * Optional: Load models and detect dimensions before first use
+   * The filter awaits it before relying on getDimensions().
+   */
+  initialize?(): Promise<void>;
+
+  /**
+   * Get the model name used to generate embeddings
+   */
+  getModel(): string;
+
+  /**
+   * Optional: Release resources such as worker threads
+   */
+  dispose?(): Promise<void>;
+
+  /**
+   * Optional: Text the provider adds to each input of a role
+   * The filter reserves its tokens when cutting texts to the model's input limit.
+   */
+  getRolePrefix?(role: EmbeddingRole): string | undefined;
 }
 
+/**
+ * Text embedded once to learn a provider's real output dimensions
+ */
+const DIMENSION_PROBE_TEXT = 'dimension probe';
+
 /**
  * Workers AI embedding provider
  * Uses direct fetch calls instead of OpenAI SDK due to compatibility issues
@@ -31,16 +84,28 @@ export class WorkersAIEmbeddingProvider implements EmbeddingProvider {
   private baseURL: string;
   private model: string;
   private dimensions: number;
+  private probed: boolean = false;
+  private policy: RequestPolicy;
 
   constructor(config: APIEmbeddingConfig) {
     this.apiKey = config.apiKey;
     this.baseURL = config.baseURL || '';
     this.model = config.model || '@cf/baai/bge-base-en-v1.5';
     this.dimensions = config.dimensions || 768;
+    this.policy = resolveRequestPolicy(config.requestPolicy);
+  }
+
+  /**
+   * Probe the API for the model's real dimensions; config.dimensions is only a default
+   */
+  async initialize(): Promise<void> {
+    if (this.probed) return;
+    this.dimensions = (await this.embed(DIMENSION_PROBE_TEXT)).length;
+    this.probed = true;
   }
 
   async embed(text: string): Promise<Float32Array> {
-    const response = await fetch(`${this.baseURL}/embeddings`, {
+    const response = await this.policy.fetch(`${this.baseURL}/embeddings`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${this.apiKey}`,
@@ -50,7 +115,7 @@ export class WorkersAIEmbeddingProvider implements EmbeddingProvider {
         model: this.model,
         input: text
       })
-    });
+    }, estimateInputTokens([text]));
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -62,7 +127,7 @@ export class WorkersAIEmbeddingProvider implements EmbeddingProvider {
   }
 
   async embedBatch(texts: string[]): Promise<Float32Array[]> {
-    const response = await fetch(`${this.baseURL}/embeddings`, {
+    const response = await this.policy.fetch(`${this.baseURL}/embeddings`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${this.apiKey}`,
@@ -72,7 +137,7 @@ export class WorkersAIEmbeddingProvider implements EmbeddingProvider {
         model: this.model,
         input: texts
       })
-    });
+    }, estimateInputTokens(texts));
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -86,6 +151,10 @@ export class WorkersAIEmbeddingProvider implements EmbeddingProvider {
   getDimensions(): number {
     return this.dimensions;
   }
+
+  getModel(): string {
+    return this.model;
+  }
 }
 
 /**
@@ -95,11 +164,16 @@ export class OpenAIEmbeddingProvider implements EmbeddingProvider {
   private client: OpenAI;
   private model: string;
   private dimensions: number;
+  private probed: boolean = false;
 
   constructor(config: APIEmbeddingConfig) {
+    const policy = resolveRequestPolicy(config.requestPolicy);
     this.client = new OpenAI({
       apiKey: config.apiKey,
       baseURL: config.baseURL,
+      // Retries and timeouts come from the shared policy instead of the SDK
+      maxRetries: 0,
+      fetch: (url, init) => policy.fetch(url as string, init as RequestInit, estimateBodyTokens(init?.body)),
     });
 
     // Default to text-embedding-3-small for speed
@@ -107,6 +181,16 @@ export class OpenAIEmbeddingProvider implements EmbeddingProvider {
     this.dimensions = config.dimensions || 1536;
   }
 
+  /**
+   * Probe the API for the real dimensions
+   * OpenAI-compatible endpoints may ignore the dimensions parameter.
+   */
+  async initialize(): Promise<void> {
+    if (this.probed) return;
+    this.dimensions = (await this.embed(DIMENSION_PROBE_TEXT)).length;
+    this.probed = true;
+  }
+
   async embed(text: string): Promise<Float32Array> {
     const response = await this.client.embeddings.create({
       model: this.model,
@@ -139,136 +223,795 @@ export class OpenAIEmbeddingProvider implements EmbeddingProvider {
   getDimensions(): number {
     return this.dimensions;
   }
+
+  getModel(): string {
+    return this.model;
+  }
+}
+
+/**
+ * Estimate the input tokens of an OpenAI embeddings request body
+ */
+function estimateBodyTokens(body: unknown): number {
+  if (typeof body !== 'string') return 0;
+  try {
+    const { input } = JSON.parse(body);
+    return estimateInputTokens(Array.isArray(input) ? input : [input]);
+  } catch {
+    return 0;
+  }
 }
 
 /**
  * Local embedding provider using transformers.js
  */
 export class LocalEmbeddingProvider implements EmbeddingProvider {
-  private pipeline: any;
+  private pipeline?: Promise<any>;
   private model: string;
-  private dimensions: number = 384; // Default for all-MiniLM-L6-v2
-  private initialized: boolean = false;
+  private dimensions?: number;
   private quantized: boolean;
+  private batchSize: number;
+  private workerPoolConfig?: LocalEmbeddingConfig['workerPool'];
+  private workerPool?: WorkerPool<string[], Float32Array[]>;
+  private disposed: boolean = false;
 
   constructor(config: LocalEmbeddingConfig) {
     // Default to a fast, compact model
     this.model = config.model || 'Xenova/all-MiniLM-L6-v2';
     this.quantized = config.quantized !== false; // Default to true
+    this.batchSize = config.batchSize ?? 32;
+    this.workerPoolConfig = config.workerPool;
 
-    // Set dimensions based on model
-    if (this.model.includes('all-MiniLM-L6-v2')) {
-      this.dimensions = 384;
-    } else if (this.model.includes('all-MiniLM-L12-v2')) {
-      this.dimensions = 384;
-    } else if (this.model.includes('bge-small')) {
-      this.dimensions = 384;
-    } else if (this.model.includes('bge-base')) {
-      this.dimensions = 768;
+    if (!Number.isInteger(this.batchSize) || this.batchSize < 1) {
+      throw new Error(`batchSize must be a positive integer, got ${config.batchSize}`);
     }
   }
 
-  private async initPipeline() {
-    if (this.initialized) return;
-
-    const { pipeline } = await import('@xenova/transformers');
+  /**
+   * Load the model and read the embedding dimensions from its output
+   */
+  async initialize(): Promise<void> {
+    if (this.dimensions === undefined) {
+      await this.embedBatch([DIMENSION_PROBE_TEXT]);
+    }
+  }
 
-    // Initialize the feature extraction pipeline
-    this.pipeline = await pipeline('feature-extraction', this.model, {
-      quantized: this.quantized,
+  private initPipeline(): Promise<any> {
+    // Concurrent callers share one load; a failed load is retried next time
+    this.pipeline ??= loadPipeline(this.model, this.quantized).catch(error => {
+      this.pipeline = undefined;
+      throw error;
     });
+    return this.pipeline;
+  }
 
-    this.initialized = true;
+  async embed(text: string): Promise<Float32Array> {
+    const [embedding] = await this.embedBatch([text]);
+    return embedding;
   }
 
-  private mean_pooling(lastHiddenState: any, attentionMask: any) {
-    // Mean pooling - take average of token embeddings
-    const inputMaskExpanded = attentionMask.unsqueeze(-1).expand(lastHiddenState.size()).data;
-    const sumEmbeddings = lastHiddenState.data.reduce((acc: number[], val: number, idx: number) => {
-      acc[idx % this.dimensions] = (acc[idx % this.dimensions] || 0) + val * inputMaskExpanded[idx];
-      return acc;
-    }, new Array(this.dimensions).fill(0));
+  async embedBatch(texts: string[]): Promise<Float32Array[]> {
+    if (this.disposed) {
+      throw new Error('LocalEmbeddingProvider has been disposed');
+    }
 
-    const sumMask = inputMaskExpanded.reduce((acc: number[], val: number, idx: number) => {
-      acc[idx % this.dimensions] = (acc[idx % this.dimensions] || 0) + val;
-      return acc;
-    }, new Array(this.dimensions).fill(0));
+    const embeddings = this.workerPoolConfig
+      ? await this.embedInWorkers(texts)
+      : await embedTexts(await this.initPipeline(), texts, this.batchSize);
 
-    return sumEmbeddings.map((val: number, idx: number) => val / Math.max(sumMask[idx], 1e-9));
+    if (embeddings.length > 0) {
+      this.dimensions = embeddings[0].length;
+    }
+    return embeddings;
   }
 
-  async embed(text: string): Promise<Float32Array> {
-    await this.initPipeline();
+  /**
+   * Spread texts over the worker pool in chunks
+   * A single call keeps at most one chunk per worker in flight, so large
+   * batches leave queue room for other callers.
+   */
+  private async embedInWorkers(texts: string[]): Promise<Float32Array[]> {
+    const pool = await this.getWorkerPool();
+    const batchSize = this.workerPoolConfig!.batchSize ?? this.batchSize;
 
-    // Generate embedding
-    const output = await this.pipeline(text, {
-      pooling: 'mean',
-      normalize: true,
-    });
+    const chunks: string[][] = [];
+    for (let i = 0; i < texts.length; i += batchSize) {
+      chunks.push(texts.slice(i, i + batchSize));
+    }
 
-    // Convert to Float32Array
-    return new Float32Array(output.data);
+    const results: Float32Array[][] = new Array(chunks.length);
+    let next = 0;
+    const runChunks = async (): Promise<void> => {
+      while (next < chunks.length) {
+        const index = next++;
+        results[index] = await pool.run(chunks[index]);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(pool.size, chunks.length) }, runChunks));
+    return results.flat();
   }
 
-  async embedBatch(texts: string[]): Promise<Float32Array[]> {
-    await this.initPipeline();
+  /**
+   * Start the worker pool on first use; each worker loads the model once
+   */
+  private async getWorkerPool(): Promise<WorkerPool<string[], Float32Array[]>> {
+    const { LOCAL_EMBEDDING_WORKER_URL } = await import('./localEmbeddingWorkerUrl.js');
+    if (!this.workerPool) {
+      const config = this.workerPoolConfig!;
+      this.workerPool = new WorkerPool({
+        size: config.size ?? Math.max(1, cpus().length - 1),
+        maxQueueSize: config.maxQueueSize ?? 100,
+        createWorker: () => new Worker(LOCAL_EMBEDDING_WORKER_URL, {
+          workerData: { model: this.model, quantized: this.quantized, batchSize: this.batchSize },
+        }),
+      });
+    }
+    return this.workerPool;
+  }
 
-    // Process in parallel for better performance
-    const results = await Promise.all(texts.map(text => this.embed(text)));
-    return results;
+  /**
+   * Terminate worker threads and release the model
+   */
+  async dispose(): Promise<void> {
+    this.disposed = true;
+    await this.workerPool?.dispose();
+    this.workerPool = undefined;
+    const pipeline = await this.pipeline?.catch(() => undefined);
+    this.pipeline = undefined;
+    await pipeline?.dispose?.();
+  }
+
+  /**
+   * Dimensions of the model's output, or 0 until the model has run
+   */
+  getDimensions(): number {
+    return this.dimensions ?? 0;
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+}
+
+/**
+ * Offline embedding provider using feature hashing
+ * Each token (see tokenize) is hashed into one signed dimension. Vectors are
+ * deterministic, so texts that share keywords score as similar. No semantics:
+ * use it for tests, CI, demos or as a zero-dependency fallback.
+ */
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  private dimensions: number;
+
+  constructor(config: Omit<HashEmbeddingConfig, 'provider'> = {}) {
+    this.dimensions = config.dimensions ?? 1024;
+    if (!Number.isInteger(this.dimensions) || this.dimensions < 1) {
+      throw new Error(`dimensions must be a positive integer, got ${config.dimensions}`);
+    }
+  }
+
+  async embed(text: string): Promise<Float32Array> {
+    return this.vectorize(text);
+  }
+
+  async embedBatch(texts: string[]): Promise<Float32Array[]> {
+    return texts.map(text => this.vectorize(text));
   }
 
   getDimensions(): number {
     return this.dimensions;
   }
+
+  getModel(): string {
+    // Bump the version whenever tokenization or hashing changes
+    return 'feature-hash-v1';
+  }
+
+  private vectorize(text: string): Float32Array {
+    const counts = new Map<string, number>();
+    for (const token of tokenize(text)) {
+      counts.set(token, (counts.get(token) || 0) + 1);
+    }
+
+    const vector = new Float32Array(this.dimensions);
+    for (const [token, count] of counts) {
+      const hash = fnv1a(token);
+      const index = hash % this.dimensions;
+      // A second hash bit picks the sign so collisions cancel out on average
+      const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+      // Dampen repeated words so one keyword cannot dominate
+      vector[index] += sign * (1 + Math.log(count));
+    }
+    return vector;
+  }
 }
 
 /**
- * Voyage AI embedding provider (placeholder - would need voyage-ai SDK)
+ * 32-bit FNV-1a hash (unsigned)
+ */
+function fnv1a(str: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Voyage AI embedding provider
+ * Uses the Voyage REST API directly (no SDK dependency).
+ * Tool descriptions are embedded with input_type "document", context with "query".
  */
 export class VoyageEmbeddingProvider implements EmbeddingProvider {
+  // Voyage accepts up to 1000 inputs per request, with a per-request token cap
+  private static readonly MAX_BATCH_SIZE = 1000;
+  private static readonly MAX_BATCH_TOKENS = 120000;
+
+  private apiKey: string;
+  private baseURL: string;
+  private model: string;
+  private dimensions: number;
+  private outputDimension?: number;
+  private probed: boolean = false;
+  private policy: RequestPolicy;
+
   constructor(config: APIEmbeddingConfig) {
-    throw new Error('Voyage AI provider not yet implemented. Use OpenAI provider for now.');
+    this.apiKey = config.apiKey;
+    this.baseURL = (config.baseURL || 'https://api.voyageai.com/v1').replace(/\/+$/, '');
+    this.model = config.model || 'voyage-3.5-lite';
+    // Only send output_dimension when explicitly configured; most models default to 1024
+    this.outputDimension = config.dimensions;
+    this.dimensions = config.dimensions || 1024;
+    this.policy = resolveRequestPolicy(config.requestPolicy);
   }
 
-  async embed(text: string): Promise<Float32Array> {
-    throw new Error('Not implemented');
+  /**
+   * Probe the API for the real dimensions, which depend on the model
+   */
+  async initialize(): Promise<void> {
+    if (this.probed) return;
+    this.dimensions = (await this.embed(DIMENSION_PROBE_TEXT)).length;
+    this.probed = true;
   }
 
-  async embedBatch(texts: string[]): Promise<Float32Array[]> {
-    throw new Error('Not implemented');
+  async embed(text: string, role: EmbeddingRole = 'query'): Promise<Float32Array> {
+    const [embedding] = await this.request([text], role);
+    return embedding;
+  }
+
+  async embedBatch(texts: string[], role: EmbeddingRole = 'document'): Promise<Float32Array[]> {
+    const results: Float32Array[] = [];
+
+    for (const batch of this.createBatches(texts)) {
+      results.push(...await this.request(batch, role));
+    }
+
+    return results;
   }
 
   getDimensions(): number {
-    throw new Error('Not implemented');
+    return this.dimensions;
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  /**
+   * Split texts into batches within the input count and token limits
+   * Tokens are estimated at 4 characters each, as in truncateToTokens
+   */
+  private createBatches(texts: string[]): string[][] {
+    const batches: string[][] = [];
+    let batch: string[] = [];
+    let batchTokens = 0;
+
+    for (const text of texts) {
+      const tokens = Math.ceil(text.length / 4);
+      if (batch.length > 0 && (
+        batch.length >= VoyageEmbeddingProvider.MAX_BATCH_SIZE ||
+        batchTokens + tokens > VoyageEmbeddingProvider.MAX_BATCH_TOKENS
+      )) {
+        batches.push(batch);
+        batch = [];
+        batchTokens = 0;
+      }
+      batch.push(text);
+      batchTokens += tokens;
+    }
+
+    if (batch.length > 0) {
+      batches.push(batch);
+    }
+    return batches;
+  }
+
+  private async request(input: string[], inputType: EmbeddingRole): Promise<Float32Array[]> {
+    const body: Record<string, any> = {
+      model: this.model,
+      input,
+      input_type: inputType,
+    };
+    if (this.outputDimension !== undefined) {
+      body.output_dimension = this.outputDimension;
+    }
+
+    const response = await this.policy.fetch(`${this.baseURL}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body)
+    }, estimateInputTokens(input));
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Voyage AI API error: ${response.status} ${errorText}`);
+    }
+
+    const data: any = await response.json();
+    // Results carry their input index; sort to be safe against reordering
+    return [...data.data]
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((d: any) => new Float32Array(d.embedding));
   }
 }
 
 /**
- * Cohere embedding provider (placeholder - would need cohere-ai SDK)
+ * Cohere embedding provider
+ * Uses the Cohere v2 REST API directly (no SDK dependency).
+ * Tool descriptions are embedded as "search_document", context as "search_query".
  */
 export class CohereEmbeddingProvider implements EmbeddingProvider {
+  // Cohere accepts at most 96 texts per embed request
+  private static readonly MAX_BATCH_SIZE = 96;
+
+  private apiKey: string;
+  private baseURL: string;
+  private model: string;
+  private dimensions: number;
+  private outputDimension?: number;
+  private embeddingType: 'float' | 'int8';
+  private probed: boolean = false;
+  private policy: RequestPolicy;
+
   constructor(config: APIEmbeddingConfig) {
-    throw new Error('Cohere provider not yet implemented. Use OpenAI provider for now.');
+    this.apiKey = config.apiKey;
+    this.baseURL = (config.baseURL || 'https://api.cohere.com/v2').replace(/\/+$/, '');
+    this.model = config.model || 'embed-english-v3.0';
+    // Only send output_dimension when explicitly configured (supported by embed-v4.0)
+    this.outputDimension = config.dimensions;
+    this.dimensions = config.dimensions || 1024;
+    this.embeddingType = config.embeddingType || 'float';
+    this.policy = resolveRequestPolicy(config.requestPolicy);
+  }
+
+  /**
+   * Probe the API for the real dimensions, e.g. 384 for the light v3 models
+   */
+  async initialize(): Promise<void> {
+    if (this.probed) return;
+    this.dimensions = (await this.embed(DIMENSION_PROBE_TEXT)).length;
+    this.probed = true;
+  }
+
+  async embed(text: string, role: EmbeddingRole = 'query'): Promise<Float32Array> {
+    const [embedding] = await this.request([text], role);
+    return embedding;
+  }
+
+  async embedBatch(texts: string[], role: EmbeddingRole = 'document'): Promise<Float32Array[]> {
+    const batchSize = CohereEmbeddingProvider.MAX_BATCH_SIZE;
+    const results: Float32Array[] = [];
+
+    for (let i = 0; i < texts.length; i += batchSize) {
+      results.push(...await this.request(texts.slice(i, i + batchSize), role));
+    }
+
+    return results;
+  }
+
+  getDimensions(): number {
+    return this.dimensions;
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  private async request(texts: string[], role: EmbeddingRole): Promise<Float32Array[]> {
+    const body: Record<string, any> = {
+      model: this.model,
+      texts,
+      input_type: role === 'query' ? 'search_query' : 'search_document',
+      embedding_types: [this.embeddingType],
+    };
+    if (this.outputDimension !== undefined) {
+      body.output_dimension = this.outputDimension;
+    }
+
+    const response = await this.policy.fetch(`${this.baseURL}/embed`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body)
+    }, estimateInputTokens(texts));
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Cohere API error: ${response.status} ${errorText}`);
+    }
+
+    // int8 embeddings are returned as integers; scale is irrelevant once normalized
+    const data: any = await response.json();
+    return data.embeddings[this.embeddingType].map((e: number[]) => new Float32Array(e));
+  }
+}
+
+/**
+ * Ollama embedding provider
+ * Uses the /api/embed endpoint of a local or self-hosted Ollama server.
+ * Dimensions depend on the pulled model and are probed in initialize().
+ */
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  private baseURL: string;
+  private model: string;
+  private dimensions: number;
+  private outputDimension?: number;
+  private batchSize: number;
+  private keepAlive?: string | number;
+  private probed: boolean = false;
+  private policy: RequestPolicy;
+
+  constructor(config: Omit<OllamaEmbeddingConfig, 'provider'> = {}) {
+    this.baseURL = (config.baseURL || 'http://localhost:11434').replace(/\/+$/, '');
+    this.model = config.model || 'nomic-embed-text';
+    this.outputDimension = config.dimensions;
+    this.dimensions = config.dimensions ?? 0;
+    this.batchSize = config.batchSize ?? 32;
+    this.keepAlive = config.keepAlive;
+    this.policy = resolveRequestPolicy(config.requestPolicy);
+
+    if (!Number.isInteger(this.batchSize) || this.batchSize < 1) {
+      throw new Error(`batchSize must be a positive integer, got ${config.batchSize}`);
+    }
+  }
+
+  async initialize(): Promise<void> {
+    if (this.probed) return;
+    this.dimensions = (await this.embed(DIMENSION_PROBE_TEXT)).length;
+    this.probed = true;
   }
 
   async embed(text: string): Promise<Float32Array> {
-    throw new Error('Not implemented');
+    const [embedding] = await this.request([text]);
+    return embedding;
   }
 
   async embedBatch(texts: string[]): Promise<Float32Array[]> {
-    throw new Error('Not implemented');
+    const results: Float32Array[] = [];
+
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      results.push(...await this.request(texts.slice(i, i + this.batchSize)));
+    }
+
+    return results;
   }
 
   getDimensions(): number {
-    throw new Error('Not implemented');
+    return this.dimensions;
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  private async request(input: string[]): Promise<Float32Array[]> {
+    const body: Record<string, any> = {
+      model: this.model,
+      input,
+    };
+    if (this.outputDimension !== undefined) {
+      body.dimensions = this.outputDimension;
+    }
+    if (this.keepAlive !== undefined) {
+      body.keep_alive = this.keepAlive;
+    }
+
+    const response = await this.policy.fetch(`${this.baseURL}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    }, estimateInputTokens(input));
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Ollama API error: ${response.status} ${errorText}`);
+    }
+
+    const data: any = await response.json();
+    return data.embeddings.map((e: number[]) => new Float32Array(e));
   }
 }
 
+/**
+ * Generic embedding provider for JSON-over-HTTP servers
+ * The request body is built from a template and the embeddings are read from
+ * a path in the response, so servers that are not quite OpenAI-compatible
+ * (text-embeddings-inference, llama.cpp, vLLM, ...) work without a custom provider.
+ */
+export class HTTPEmbeddingProvider implements EmbeddingProvider {
+  private url: string;
+  private model: string;
+  private headers: Record<string, string>;
+  private bodyTemplate: Record<string, unknown>;
+  private responsePath: string;
+  private batchSize: number;
+  private dimensions?: number;
+  private policy: RequestPolicy;
+
+  constructor(config: Omit<HTTPEmbeddingConfig, 'provider'>) {
+    if (!config.baseURL) {
+      throw new Error('The http embedding provider requires a baseURL');
+    }
+
+    const path = config.path ?? '/embeddings';
+    this.url = config.baseURL.replace(/\/+$/, '') + (path.startsWith('/') || path === '' ? path : `/${path}`);
+    this.model = config.model || 'default';
+    this.headers = config.headers ?? {};
+    this.bodyTemplate = config.bodyTemplate ?? { model: '{model}', input: '{input}' };
+    this.responsePath = config.responsePath ?? 'data.*.embedding';
+    this.batchSize = config.batchSize ?? 32;
+    this.policy = resolveRequestPolicy(config.requestPolicy);
+
+    if (!Number.isInteger(this.batchSize) || this.batchSize < 1) {
+      throw new Error(`batchSize must be a positive integer, got ${config.batchSize}`);
+    }
+    if (!JSON.stringify(this.bodyTemplate).includes('"{input}"')) {
+      throw new Error('bodyTemplate must contain the "{input}" placeholder');
+    }
+  }
+
+  /**
+   * Probe the server for the model's dimensions
+   */
+  async initialize(): Promise<void> {
+    if (this.dimensions !== undefined) return;
+    this.dimensions = (await this.embed(DIMENSION_PROBE_TEXT)).length;
+  }
+
+  async embed(text: string, role: EmbeddingRole = 'query'): Promise<Float32Array> {
+    const [embedding] = await this.request([text], role);
+    return embedding;
+  }
+
+  async embedBatch(texts: string[], role: EmbeddingRole = 'document'): Promise<Float32Array[]> {
+    const results: Float32Array[] = [];
+
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      results.push(...await this.request(texts.slice(i, i + this.batchSize), role));
+    }
+
+    return results;
+  }
+
+  /**
+   * Dimensions of the model (0 until initialize() has probed them)
+   */
+  getDimensions(): number {
+    return this.dimensions ?? 0;
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  private async request(input: string[], role: EmbeddingRole): Promise<Float32Array[]> {
+    const placeholders = new Map<string, unknown>([
+      ['{input}', input],
+      ['{model}', this.model],
+      ['{role}', role],
+    ]);
+
+    const response = await this.policy.fetch(this.url, {
+      method: 'POST',
+      headers: {
+        ...this.headers,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(fillTemplate(this.bodyTemplate, placeholders))
+    }, estimateInputTokens(input));
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`HTTP embedding API error: ${response.status} ${errorText}`);
+    }
+
+    const data = await response.json();
+    const embeddings = readJsonPath(data, this.responsePath === '' ? [] : this.responsePath.split('.'));
+    if (!Array.isArray(embeddings) || !embeddings.every(Array.isArray)) {
+      throw new Error(`HTTP embedding response has no list of embeddings at "${this.responsePath}"`);
+    }
+    return embeddings.map((e: number[]) => new Float32Array(e));
+  }
+}
+
+/**
+ * Replace string values that are exactly a placeholder, at any depth
+ */
+function fillTemplate(template: unknown, placeholders: Map<string, unknown>): unknown {
+  if (typeof template === 'string') {
+    return placeholders.has(template) ? placeholders.get(template) : template;
+  }
+  if (Array.isArray(template)) {
+    return template.map(item => fillTemplate(item, placeholders));
+  }
+  if (typeof template === 'object' && template !== null) {
+    return Object.fromEntries(
+      Object.entries(template).map(([key, value]) => [key, fillTemplate(value, placeholders)])
+    );
+  }
+  return template;
+}
+
+/**
+ * Read the value at a path of keys; '*' maps the rest of the path over an array
+ */
+function readJsonPath(value: unknown, path: string[]): unknown {
+  if (path.length === 0) return value;
+
+  const [key, ...rest] = path;
+  if (key === '*') {
+    return Array.isArray(value) ? value.map(item => readJsonPath(item, rest)) : undefined;
+  }
+  if (typeof value !== 'object' || value === null) return undefined;
+  return readJsonPath((value as Record<string, unknown>)[key], rest);
+}
+
+/**
+ * Wraps a provider to apply per-role prefix templates before embedding
+ */
+export class RolePrefixEmbeddingProvider implements EmbeddingProvider {
+  private provider: EmbeddingProvider;
+  private prefixes: RolePrefixes;
+
+  constructor(provider: EmbeddingProvider, prefixes: RolePrefixes) {
+    this.provider = provider;
+    this.prefixes = prefixes;
+  }
+
+  async embed(text: string, role: EmbeddingRole = 'query'): Promise<Float32Array> {
+    return this.provider.embed(applyRolePrefix(text, this.prefixes[role]), role);
+  }
+
+  async embedBatch(texts: string[], role: EmbeddingRole = 'document'): Promise<Float32Array[]> {
+    const template = this.prefixes[role];
+    return this.provider.embedBatch(texts.map(text => applyRolePrefix(text, template)), role);
+  }
+
+  getDimensions(): number {
+    return this.provider.getDimensions();
+  }
+
+  getModel(): string {
+    return this.provider.getModel();
+  }
+
+  async initialize(): Promise<void> {
+    await this.provider.initialize?.();
+  }
+
+  async dispose(): Promise<void> {
+    await this.provider.dispose?.();
+  }
+
+  getRolePrefix(role: EmbeddingRole): string | undefined {
+    return this.prefixes[role]?.split('{text}').join('');
+  }
+}
+
+/**
+ * Apply a role prefix template to a text
+ */
+function applyRolePrefix(text: string, template?: string): string {
+  if (!template) return text;
+  return template.includes('{text}') ? template.split('{text}').join(text) : template + text;
+}
+
+/**
+ * Prefixes that local model families were trained with
+ * These models degrade noticeably when queries and passages are not marked.
+ */
+function getDefaultRolePrefixes(model: string): RolePrefixes | undefined {
+  const name = model.toLowerCase();
+
+  if (name.includes('e5-')) {
+    return { query: 'query: ', document: 'passage: ' };
+  }
+  if (name.includes('nomic-embed-text')) {
+    return { query: 'search_query: ', document: 'search_document: ' };
+  }
+  return undefined;
+}
+
+/**
+ * Factory for a custom embedding provider
+ */
+export type EmbeddingProviderFactory = (config: CustomEmbeddingConfig) => EmbeddingProvider;
+
+const customProviders = new Map<string, EmbeddingProviderFactory>();
+
+/**
+ * Register a custom embedding provider so configs can select it with
+ * `{ provider: 'custom', factory: name }`
+ * Registering the same name again replaces the previous factory.
+ */
+export function registerEmbeddingProvider(name: string, factory: EmbeddingProviderFactory): void {
+  customProviders.set(name, factory);
+}
+
+/**
+ * Name of the provider a config selects, as recorded in store keys and snapshots
+ * Custom providers include their factory name; provider instances are 'custom'.
+ */
+export function getProviderName(
+  config: EmbeddingConfig | FallbackEmbeddingConfig | CustomEmbeddingConfig | EmbeddingProvider
+): string {
+  if (isEmbeddingProvider(config)) {
+    return 'custom';
+  }
+  return config.provider === 'custom' ? `custom:${config.factory}` : config.provider;
+}
+
+/**
+ * Check whether a value implements EmbeddingProvider (as opposed to being a config object)
+ */
+export function isEmbeddingProvider(value: unknown): value is EmbeddingProvider {
+  const candidate = value as EmbeddingProvider;
+  return typeof candidate === 'object' && candidate !== null &&
+    typeof candidate.embed === 'function' &&
+    typeof candidate.embedBatch === 'function' &&
+    typeof candidate.getDimensions === 'function';
+}
+
 /**
  * Factory to create embedding provider
  */
-export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+export function createEmbeddingProvider(
+  config: EmbeddingConfig | FallbackEmbeddingConfig | CustomEmbeddingConfig
+): EmbeddingProvider {
+  if (config.provider === 'fallback') {
+    const { providers, failureThreshold, cooldownMs } = config as FallbackEmbeddingConfig;
+    return new FallbackEmbeddingProvider(
+      providers.map(member => isEmbeddingProvider(member) ? member : createEmbeddingProvider(member)),
+      { failureThreshold, cooldownMs }
+    );
+  }
+
+  if (config.provider === 'custom') {
+    const factory = customProviders.get(config.factory);
+    if (!factory) {
+      throw new Error(`Unknown embedding provider factory: ${config.factory}. Register it with registerEmbeddingProvider() first.`);
+    }
+    return factory(config);
+  }
+
+  const builtInConfig = config as EmbeddingConfig;
+  const provider = createBaseEmbeddingProvider(builtInConfig);
+
+  const prefixes = builtInConfig.rolePrefixes ??
+    (builtInConfig.provider === 'local' || builtInConfig.provider === 'ollama'
+      ? getDefaultRolePrefixes(provider.getModel())
+      : undefined);
+
+  return prefixes ? new RolePrefixEmbeddingProvider(provider, prefixes) : provider;
+}
+
+function createBaseEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
   // If using OpenAI provider with a Workers AI model, use WorkersAIProvider instead
   // (OpenAI SDK is incompatible with Workers AI's response format)
   if (config.provider === 'openai' && config.model?.startsWith('@cf/')) {
@@ -284,6 +1027,12 @@ export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvi
       return new CohereEmbeddingProvider(config);
     case 'local':
       return new LocalEmbeddingProvider(config);
+    case 'ollama':
+      return new OllamaEmbeddingProvider(config);
+    case 'http':
+      return new HTTPEmbeddingProvider(config);
+    case 'hash':
+      return new HashEmbeddingProvider(config);
     default:
       throw new Error(`Unknown embedding provider: ${(config as any).provider}`);
   }
@@ -0,0 +1,110 @@
+/**
+ * Tests for the fallback embedding provider and its circuit breakers
+ */
+
+import {
+  FallbackEmbeddingProvider,
+  HashEmbeddingProvider,
+  CircuitOpenError,
+  createEmbeddingProvider,
+} from '../src';
+
+/**
+ * Hash embeddings that fail on demand and count calls
+ */
+class FlakyProvider extends HashEmbeddingProvider {
+  failing = false;
+  calls = 0;
+
+  async embed(text: string): Promise<Float32Array> {
+    return (await this.embedBatch([text]))[0];
+  }
+
+  async embedBatch(texts: string[]): Promise<Float32Array[]> {
+    this.calls++;
+    if (this.failing) throw new Error('provider down');
+    return super.embedBatch(texts);
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('FallbackEmbeddingProvider', () => {
+  let primary: FlakyProvider;
+  let backup: FlakyProvider;
+
+  beforeEach(() => {
+    primary = new FlakyProvider();
+    backup = new FlakyProvider({ dimensions: 64 });
+  });
+
+  test('should use the first provider that succeeds', async () => {
+    const provider = new FallbackEmbeddingProvider([primary, backup]);
+
+    expect(await provider.embed('hello')).toHaveLength(1024);
+    primary.failing = true;
+    expect(await provider.embed('hello')).toHaveLength(64);
+    expect(provider.getHealth()[0]).toMatchObject({ state: 'closed', consecutiveFailures: 1, lastError: 'provider down' });
+  });
+
+  test('should skip a provider once its circuit opens', async () => {
+    const provider = new FallbackEmbeddingProvider([primary, backup], { failureThreshold: 2 });
+    primary.failing = true;
+
+    for (let i = 0; i < 4; i++) {
+      await provider.embedBatch(['hello']);
+    }
+
+    expect(primary.calls).toBe(2);
+    expect(backup.calls).toBe(4);
+    expect(provider.getHealth()[0]).toMatchObject({ state: 'open', consecutiveFailures: 2 });
+    await expect(provider.getProviders()[0].embed('hello')).rejects.toThrow(CircuitOpenError);
+  });
+
+  test('should probe again after the cooldown and close on success', async () => {
+    const provider = new FallbackEmbeddingProvider([primary, backup], { failureThreshold: 1, cooldownMs: 50 });
+    primary.failing = true;
+    await provider.embed('hello');
+    expect(provider.getHealth()[0].state).toBe('open');
+
+    await sleep(60);
+    expect(provider.getHealth()[0].state).toBe('half-open');
+    primary.failing = false;
+
+    expect(await provider.embed('hello')).toHaveLength(1024);
+    expect(provider.getHealth()[0]).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  test('should reopen when the probe fails', async () => {
+    const provider = new FallbackEmbeddingProvider([primary, backup], { failureThreshold: 3, cooldownMs: 50 });
+    primary.failing = true;
+    for (let i = 0; i < 3; i++) {
+      await provider.embed('hello');
+    }
+
+    await sleep(60);
+    await provider.embed('hello');
+
+    expect(primary.calls).toBe(4);
+    expect(provider.getHealth()[0]).toMatchObject({ state: 'open', consecutiveFailures: 4 });
+  });
+
+  test('should throw the last error when every provider fails', async () => {
+    const provider = new FallbackEmbeddingProvider([primary, backup]);
+    primary.failing = true;
+    backup.failing = true;
+
+    await expect(provider.embed('hello')).rejects.toThrow('provider down');
+  });
+
+  test('should be created from a config', async () => {
+    const provider = createEmbeddingProvider({
+      provider: 'fallback',
+      providers: [{ provider: 'hash' }, { provider: 'hash', dimensions: 64 }],
+    });
+
+    expect(provider).toBeInstanceOf(FallbackEmbeddingProvider);
+    expect(provider.getModel()).toBe('fallback(feature-hash-v1,feature-hash-v1)');
+    expect(provider.getDimensions()).toBe(1024);
+  });
+});
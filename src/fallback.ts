@@ -0,0 +1,204 @@
+import type { EmbeddingProvider, EmbeddingRole } from './embedding.js';
+
+/**
+ * Circuit breaker state of a provider in a fallback chain
+ * - closed: requests go through
+ * - open: requests are skipped until the cooldown has passed
+ * - half-open: the cooldown has passed; the next request probes the provider
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Health of one provider in a fallback chain
+ */
+export interface ProviderHealth {
+  model: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+
+  /** When an open circuit lets a probe request through (epoch ms) */
+  retryAt?: number;
+
+  /** Message of the last failure, if any */
+  lastError?: string;
+}
+
+/**
+ * Thrown instead of calling a provider whose circuit is open
+ */
+export class CircuitOpenError extends Error {
+  readonly model: string;
+
+  constructor(model: string, retryAt: number) {
+    super(`Embedding provider "${model}" is unavailable until ${new Date(retryAt).toISOString()}`);
+    this.name = 'CircuitOpenError';
+    this.model = model;
+  }
+}
+
+/**
+ * Embedding provider that tries several providers in order
+ * Each provider has a circuit breaker: after failureThreshold consecutive
+ * failures it is skipped for cooldownMs, then a single request probes it again.
+ *
+ * Vectors from different providers are not comparable. Used directly, this
+ * provider can return either; MCPToolFilter instead keeps one tool embedding
+ * set per provider (see getProviders()).
+ */
+export class FallbackEmbeddingProvider implements EmbeddingProvider {
+  private providers: GuardedEmbeddingProvider[];
+
+  constructor(
+    providers: EmbeddingProvider[],
+    options: { failureThreshold?: number; cooldownMs?: number } = {}
+  ) {
+    if (providers.length === 0) {
+      throw new Error('FallbackEmbeddingProvider needs at least one provider');
+    }
+
+    const failureThreshold = options.failureThreshold ?? 3;
+    const cooldownMs = options.cooldownMs ?? 30000;
+    this.providers = providers.map(provider => new GuardedEmbeddingProvider(provider, failureThreshold, cooldownMs));
+  }
+
+  async embed(text: string, role?: EmbeddingRole): Promise<Float32Array> {
+    return this.tryInOrder(provider => provider.embed(text, role));
+  }
+
+  async embedBatch(texts: string[], role?: EmbeddingRole): Promise<Float32Array[]> {
+    return this.tryInOrder(provider => provider.embedBatch(texts, role));
+  }
+
+  async initialize(): Promise<void> {
+    await this.tryInOrder(provider => provider.initialize());
+  }
+
+  /**
+   * Dimensions of the first provider
+   */
+  getDimensions(): number {
+    return this.providers[0].getDimensions();
+  }
+
+  getModel(): string {
+    return `fallback(${this.providers.map(provider => provider.getModel()).join(',')})`;
+  }
+
+  /**
+   * The chain's providers in order, each guarded by its circuit breaker
+   */
+  getProviders(): EmbeddingProvider[] {
+    return [...this.providers];
+  }
+
+  getHealth(): ProviderHealth[] {
+    return this.providers.map(provider => provider.getHealth());
+  }
+
+  async dispose(): Promise<void> {
+    await Promise.all(this.providers.map(provider => provider.dispose()));
+  }
+
+  private async tryInOrder<T>(call: (provider: GuardedEmbeddingProvider) => Promise<T>): Promise<T> {
+    let lastError: unknown;
+    for (const provider of this.providers) {
+      try {
+        return await call(provider);
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+}
+
+/**
+ * A chain member wrapped in a circuit breaker
+ */
+class GuardedEmbeddingProvider implements EmbeddingProvider {
+  private provider: EmbeddingProvider;
+  private failureThreshold: number;
+  private cooldownMs: number;
+  private consecutiveFailures: number = 0;
+  private openedAt?: number;
+  private probing: boolean = false;
+  private lastError?: string;
+
+  constructor(provider: EmbeddingProvider, failureThreshold: number, cooldownMs: number) {
+    this.provider = provider;
+    this.failureThreshold = failureThreshold;
+    this.cooldownMs = cooldownMs;
+  }
+
+  embed(text: string, role?: EmbeddingRole): Promise<Float32Array> {
+    return this.guard(() => this.provider.embed(text, role));
+  }
+
+  embedBatch(texts: string[], role?: EmbeddingRole): Promise<Float32Array[]> {
+    return this.guard(() => this.provider.embedBatch(texts, role));
+  }
+
+  async initialize(): Promise<void> {
+    // Nothing to load is not evidence that the provider works
+    if (this.provider.initialize) {
+      await this.guard(() => this.provider.initialize!());
+    }
+  }
+
+  getDimensions(): number {
+    return this.provider.getDimensions();
+  }
+
+  getModel(): string {
+    return this.provider.getModel();
+  }
+
+  async dispose(): Promise<void> {
+    await this.provider.dispose?.();
+  }
+
+  getRolePrefix(role: EmbeddingRole): string | undefined {
+    return this.provider.getRolePrefix?.(role);
+  }
+
+  getHealth(): ProviderHealth {
+    return {
+      model: this.provider.getModel(),
+      state: this.getState(),
+      consecutiveFailures: this.consecutiveFailures,
+      ...(this.openedAt !== undefined && { retryAt: this.openedAt + this.cooldownMs }),
+      ...(this.lastError !== undefined && { lastError: this.lastError }),
+    };
+  }
+
+  private getState(): CircuitState {
+    if (this.openedAt === undefined) return 'closed';
+    return Date.now() - this.openedAt >= this.cooldownMs ? 'half-open' : 'open';
+  }
+
+  private async guard<T>(call: () => Promise<T>): Promise<T> {
+    const state = this.getState();
+    // While half-open, only one request probes the provider
+    if (state === 'open' || (state === 'half-open' && this.probing)) {
+      throw new CircuitOpenError(this.provider.getModel(), this.openedAt! + this.cooldownMs);
+    }
+
+    const probe = state === 'half-open';
+    this.probing ||= probe;
+    try {
+      const result = await call();
+      this.consecutiveFailures = 0;
+      this.openedAt = undefined;
+      return result;
+    } catch (error) {
+      this.consecutiveFailures++;
+      this.lastError = error instanceof Error ? error.message : String(error);
+      if (probe || this.consecutiveFailures >= this.failureThreshold) {
+        this.openedAt = Date.now();
+      }
+      throw error;
+    } finally {
+      if (probe) this.probing = false;
+    }
+  }
+}
@@ -0,0 +1,434 @@
+import { dotProduct, MinHeap } from './utils.js';
+
+/**
+ * HNSW graph in serializable form (vectors are stored separately)
+ */
+export interface SerializedHNSWIndex {
+  M: number;
+  efConstruction: number;
+  entryPoint: number;
+  maxLevel: number;
+  nodes: Array<{
+    key: string;
+    level: number;
+    /** Neighbor node indexes per level, from level 0 up */
+    neighbors: number[][];
+  }>;
+}
+
+/**
+ * HNSW index statistics
+ */
+export interface HNSWIndexStats {
+  /** Live (searchable) nodes */
+  nodes: number;
+
+  /** Removed nodes still kept for graph connectivity */
+  deleted: number;
+
+  /** Highest graph level */
+  maxLevel: number;
+}
+
+interface Candidate {
+  id: number;
+  similarity: number;
+}
+
+/**
+ * Hierarchical Navigable Small World graph for approximate nearest neighbor search
+ * Vectors must be normalized; similarity is the dot product.
+ * Removal marks nodes as deleted (they keep routing searches) and the graph is
+ * rebuilt once deleted nodes outnumber live ones.
+ */
+export class HNSWIndex {
+  private M: number;
+  private maxConnections0: number;
+  private efConstruction: number;
+  private levelMultiplier: number;
+  private random: () => number;
+
+  private nodeKeys: string[] = [];
+  private vectors: Float32Array[] = [];
+  private levels: number[] = [];
+  private neighbors: number[][][] = [];
+  private deleted: boolean[] = [];
+  private keyToId: Map<string, number> = new Map();
+  private deletedCount: number = 0;
+
+  private entryPoint: number = -1;
+  private maxLevel: number = -1;
+
+  constructor(options: { M?: number; efConstruction?: number; seed?: number } = {}) {
+    this.M = options.M ?? 16;
+    this.maxConnections0 = this.M * 2;
+    this.efConstruction = options.efConstruction ?? 100;
+    this.levelMultiplier = 1 / Math.log(this.M);
+    this.random = mulberry32(options.seed ?? 42);
+  }
+
+  get size(): number {
+    return this.keyToId.size;
+  }
+
+  has(key: string): boolean {
+    return this.keyToId.has(key);
+  }
+
+  keys(): string[] {
+    return [...this.keyToId.keys()];
+  }
+
+  /**
+   * Insert a vector, replacing any vector stored under the same key
+   * Re-adding an equal vector is a no-op.
+   */
+  add(key: string, vector: Float32Array): void {
+    const existing = this.keyToId.get(key);
+    if (existing !== undefined) {
+      if (vectorsEqual(this.vectors[existing], vector)) return;
+      this.delete(key);
+    }
+
+    const id = this.nodeKeys.length;
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelMultiplier);
+
+    this.nodeKeys.push(key);
+    this.vectors.push(vector);
+    this.levels.push(level);
+    this.neighbors.push(Array.from({ length: level + 1 }, () => []));
+    this.deleted.push(false);
+    this.keyToId.set(key, id);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+      return;
+    }
+
+    // Greedy descent through the levels above the new node
+    let entry = this.entryPoint;
+    for (let level_ = this.maxLevel; level_ > level; level_--) {
+      entry = this.greedySearch(vector, entry, level_);
+    }
+
+    for (let level_ = Math.min(level, this.maxLevel); level_ >= 0; level_--) {
+      const candidates = this.searchLayer(vector, [entry], this.efConstruction, level_);
+      const maxConnections = level_ === 0 ? this.maxConnections0 : this.M;
+      const selected = this.selectNeighbors(vector, candidates, this.M);
+
+      this.neighbors[id][level_] = selected.map(c => c.id);
+
+      for (const neighbor of selected) {
+        const links = this.neighbors[neighbor.id][level_];
+        links.push(id);
+        if (links.length > maxConnections) {
+          this.neighbors[neighbor.id][level_] = this.shrinkConnections(neighbor.id, links, maxConnections);
+        }
+      }
+
+      entry = candidates[0].id;
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+    }
+  }
+
+  /**
+   * Remove a vector
+   * @returns true if the key was indexed
+   */
+  delete(key: string): boolean {
+    const id = this.keyToId.get(key);
+    if (id === undefined) return false;
+
+    this.keyToId.delete(key);
+    this.deleted[id] = true;
+    this.deletedCount++;
+
+    if (this.keyToId.size === 0) {
+      this.clear();
+    } else if (this.deletedCount > this.keyToId.size) {
+      this.rebuild();
+    }
+    return true;
+  }
+
+  clear(): void {
+    this.nodeKeys = [];
+    this.vectors = [];
+    this.levels = [];
+    this.neighbors = [];
+    this.deleted = [];
+    this.keyToId.clear();
+    this.deletedCount = 0;
+    this.entryPoint = -1;
+    this.maxLevel = -1;
+  }
+
+  /**
+   * Find the approximate k nearest neighbors of a normalized query
+   * @param ef - Search breadth; higher is slower but more accurate (raised to at least k)
+   * @param accept - Optional filter; the search widens until k accepted results are found
+   * @returns Results sorted by descending similarity
+   */
+  search(
+    query: Float32Array,
+    k: number,
+    ef: number = 50,
+    accept?: (key: string) => boolean
+  ): Array<{ key: string; similarity: number }> {
+    if (this.keyToId.size === 0 || k <= 0) return [];
+
+    let entry = this.entryPoint;
+    for (let level = this.maxLevel; level > 0; level--) {
+      entry = this.greedySearch(query, entry, level);
+    }
+
+    let breadth = Math.max(ef, k);
+    while (true) {
+      const results: Array<{ key: string; similarity: number }> = [];
+      for (const candidate of this.searchLayer(query, [entry], breadth, 0)) {
+        if (this.deleted[candidate.id]) continue;
+        const key = this.nodeKeys[candidate.id];
+        if (accept && !accept(key)) continue;
+        results.push({ key, similarity: candidate.similarity });
+        if (results.length === k) break;
+      }
+
+      // Widen the search when deleted or filtered nodes crowded out results
+      if (results.length === k || breadth >= this.nodeKeys.length) {
+        return results;
+      }
+      breadth *= 2;
+    }
+  }
+
+  getStats(): HNSWIndexStats {
+    return {
+      nodes: this.keyToId.size,
+      deleted: this.deletedCount,
+      maxLevel: this.maxLevel,
+    };
+  }
+
+  /**
+   * Serialize the graph structure; deleted nodes are dropped
+   */
+  serialize(): SerializedHNSWIndex {
+    const liveIds = this.nodeKeys.map((_, id) => id).filter(id => !this.deleted[id]);
+    const remap = new Map(liveIds.map((id, index) => [id, index]));
+
+    let entryPoint = remap.get(this.entryPoint);
+    if (entryPoint === undefined) {
+      entryPoint = this.highestLevelNode(liveIds, id => remap.get(id)!);
+    }
+
+    return {
+      M: this.M,
+      efConstruction: this.efConstruction,
+      entryPoint,
+      maxLevel: liveIds.length > 0 ? Math.max(...liveIds.map(id => this.levels[id])) : -1,
+      nodes: liveIds.map(id => ({
+        key: this.nodeKeys[id],
+        level: this.levels[id],
+        neighbors: this.neighbors[id].map(links =>
+          links.filter(link => remap.has(link)).map(link => remap.get(link)!)
+        ),
+      })),
+    };
+  }
+
+  /**
+   * Restore a serialized graph
+   * @param getVector - Returns the normalized vector for a key; nodes without
+   *   a vector are dropped along with their edges
+   */
+  static deserialize(
+    data: SerializedHNSWIndex,
+    getVector: (key: string) => Float32Array | undefined,
+    options: { seed?: number } = {}
+  ): HNSWIndex {
+    const index = new HNSWIndex({ M: data.M, efConstruction: data.efConstruction, seed: options.seed });
+
+    const remap = new Map<number, number>();
+    data.nodes.forEach((node, oldId) => {
+      const vector = getVector(node.key);
+      if (vector === undefined) return;
+
+      remap.set(oldId, index.nodeKeys.length);
+      index.keyToId.set(node.key, index.nodeKeys.length);
+      index.nodeKeys.push(node.key);
+      index.vectors.push(vector);
+      index.levels.push(node.level);
+      index.deleted.push(false);
+    });
+
+    for (const [oldId, newId] of remap) {
+      index.neighbors[newId] = data.nodes[oldId].neighbors.map(links =>
+        links.filter(link => remap.has(link)).map(link => remap.get(link)!)
+      );
+    }
+
+    const liveIds = [...remap.values()];
+    if (liveIds.length > 0) {
+      const entryPoint = remap.get(data.entryPoint);
+      index.entryPoint = entryPoint ?? index.highestLevelNode(liveIds, id => id);
+      index.maxLevel = index.levels[index.entryPoint];
+    }
+
+    return index;
+  }
+
+  /**
+   * Rebuild the graph from live nodes, dropping deleted ones
+   */
+  private rebuild(): void {
+    const live = [...this.keyToId].map(([key, id]) => ({ key, vector: this.vectors[id] }));
+    this.clear();
+    for (const { key, vector } of live) {
+      this.add(key, vector);
+    }
+  }
+
+  private highestLevelNode(ids: number[], mapId: (id: number) => number): number {
+    let best = -1;
+    let bestLevel = -1;
+    for (const id of ids) {
+      if (this.levels[id] > bestLevel) {
+        best = id;
+        bestLevel = this.levels[id];
+      }
+    }
+    return best === -1 ? -1 : mapId(best);
+  }
+
+  /**
+   * Follow the most similar neighbor until no neighbor improves (ef = 1)
+   */
+  private greedySearch(query: Float32Array, entry: number, level: number): number {
+    let current = entry;
+    let currentSimilarity = dotProduct(query, this.vectors[current]);
+
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (const neighbor of this.neighbors[current][level] ?? []) {
+        const similarity = dotProduct(query, this.vectors[neighbor]);
+        if (similarity > currentSimilarity) {
+          current = neighbor;
+          currentSimilarity = similarity;
+          improved = true;
+        }
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * Beam search within one level
+   * @returns Up to ef nodes sorted by descending similarity
+   */
+  private searchLayer(query: Float32Array, entries: number[], ef: number, level: number): Candidate[] {
+    const visited = new Set<number>(entries);
+    // Max-heap of nodes to expand, min-heap of the best ef found so far
+    const candidates = new MinHeap<Candidate>(c => -c.similarity);
+    const results = new MinHeap<Candidate>(c => c.similarity);
+
+    for (const id of entries) {
+      const candidate = { id, similarity: dotProduct(query, this.vectors[id]) };
+      candidates.push(candidate);
+      results.push(candidate);
+    }
+
+    while (candidates.size() > 0) {
+      const current = candidates.pop()!;
+      if (results.size() >= ef && current.similarity < results.peek()!.similarity) {
+        break;
+      }
+
+      for (const neighbor of this.neighbors[current.id][level] ?? []) {
+        if (visited.has(neighbor)) continue;
+        visited.add(neighbor);
+
+        const similarity = dotProduct(query, this.vectors[neighbor]);
+        if (results.size() < ef || similarity > results.peek()!.similarity) {
+          const candidate = { id: neighbor, similarity };
+          candidates.push(candidate);
+          results.push(candidate);
+          if (results.size() > ef) {
+            results.pop();
+          }
+        }
+      }
+    }
+
+    return results.toSortedArray();
+  }
+
+  /**
+   * Neighbor selection heuristic from the HNSW paper: prefer candidates that
+   * are closer to the new node than to already selected neighbors, which keeps
+   * the graph navigable across clusters. Remaining slots are filled with the
+   * best pruned candidates.
+   * @param candidates - Sorted by descending similarity to the base vector
+   */
+  private selectNeighbors(base: Float32Array, candidates: Candidate[], count: number): Candidate[] {
+    const selected: Candidate[] = [];
+    const pruned: Candidate[] = [];
+
+    for (const candidate of candidates) {
+      if (selected.length >= count) break;
+
+      const diverse = selected.every(
+        s => dotProduct(this.vectors[candidate.id], this.vectors[s.id]) <= candidate.similarity
+      );
+      if (diverse) {
+        selected.push(candidate);
+      } else {
+        pruned.push(candidate);
+      }
+    }
+
+    for (const candidate of pruned) {
+      if (selected.length >= count) break;
+      selected.push(candidate);
+    }
+
+    return selected;
+  }
+
+  private shrinkConnections(id: number, links: number[], maxConnections: number): number[] {
+    const base = this.vectors[id];
+    const candidates = links
+      .map(link => ({ id: link, similarity: dotProduct(base, this.vectors[link]) }))
+      .sort((a, b) => b.similarity - a.similarity);
+    return this.selectNeighbors(base, candidates, maxConnections).map(c => c.id);
+  }
+}
+
+function vectorsEqual(a: Float32Array, b: Float32Array): boolean {
+  if (a === b) return true;
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Small seeded PRNG so graph construction is reproducible
+ */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
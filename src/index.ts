@@ -4,21 +4,72 @@
  * Ultra-fast semantic tool filtering for MCP servers using embedding similarity
  */
 
-export { MCPToolFilter } from './MCPToolFilter.js';
+export { MCPToolFilter, INDEX_SNAPSHOT_VERSION } from './MCPToolFilter.js';
 
 export type {
   MCPTool,
   MCPServer,
   ChatMessage,
+  ChatToolCall,
+  ChatContentPart,
   FilterInput,
   ScoredTool,
   FilterOptions,
+  TruncationStrategy,
+  ContextMode,
+  ContextWeights,
+  RecentToolsOptions,
   FilterResult,
   EmbeddingConfig,
+  CustomEmbeddingConfig,
+  FallbackEmbeddingConfig,
   MCPToolFilterConfig,
+  IndexSnapshot,
+  IndexSnapshotTool,
+  RolePrefixes,
+  HybridSearchConfig,
+  HierarchicalFilterConfig,
+  ANNConfig,
+  QuantizationConfig,
+  WorkerPoolConfig,
+  RequestPolicyConfig,
+  DegradationConfig,
+  DegradationStrategy,
 } from './types.js';
 
 export {
   createEmbeddingProvider,
+  HashEmbeddingProvider,
+  registerEmbeddingProvider,
+  isEmbeddingProvider,
   type EmbeddingProvider,
+  type EmbeddingProviderFactory,
+  type EmbeddingRole,
 } from './embedding.js';
+
+export {
+  MemoryEmbeddingStore,
+  FileSystemEmbeddingStore,
+  type EmbeddingStore,
+  type EmbeddingStoreKey,
+  type EmbeddingStoreStats,
+} from './store.js';
+
+export { RequestPolicy } from './requestPolicy.js';
+
+export { TransformersTokenizer, BPETokenizer, type Tokenizer } from './tokenizer.js';
+
+export {
+  FallbackEmbeddingProvider,
+  CircuitOpenError,
+  type CircuitState,
+  type ProviderHealth,
+} from './fallback.js';
+
+export type { QuantizationType } from './quantization.js';
+
+export {
+  EmbeddingValidationError,
+  type EmbeddingSubject,
+  type EmbeddingValidationReason,
+} from './validation.js';
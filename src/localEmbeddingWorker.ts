@@ -0,0 +1,33 @@
+/**
+ * Worker thread entry point for LocalEmbeddingProvider's worker pool
+ * Loads the model once, then answers embedding requests one at a time.
+ */
+
+import { parentPort, workerData } from 'node:worker_threads';
+import { loadPipeline, embedTexts } from './localInference.js';
+import type { WorkerRequest, WorkerResponse } from './workerPool.js';
+
+const { model, quantized, batchSize } = workerData as { model: string; quantized: boolean; batchSize: number };
+
+// Start loading right away; a failed load is retried on the next request
+let pipeline: Promise<any> | undefined;
+const getPipeline = (): Promise<any> => {
+  pipeline ??= loadPipeline(model, quantized).catch(error => {
+    pipeline = undefined;
+    throw error;
+  });
+  return pipeline;
+};
+getPipeline().catch(() => undefined);
+
+parentPort!.on('message', async ({ id, input }: WorkerRequest<string[]>) => {
+  let response: WorkerResponse<Float32Array[]>;
+  try {
+    const embeddings = await embedTexts(await getPipeline(), input, batchSize);
+    response = { id, output: embeddings };
+    parentPort!.postMessage(response, embeddings.map(embedding => embedding.buffer as ArrayBuffer));
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+    parentPort!.postMessage(response);
+  }
+});
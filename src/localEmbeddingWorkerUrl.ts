@@ -0,0 +1,7 @@
+/**
+ * Location of the local embedding worker script
+ * Kept out of embedding.ts and imported on demand: import.meta only compiles
+ * as ESM, and CommonJS builds (e.g. the test runner) never start workers.
+ */
+
+export const LOCAL_EMBEDDING_WORKER_URL = new URL('./localEmbeddingWorker.js', import.meta.url);
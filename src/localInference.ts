@@ -0,0 +1,43 @@
+/**
+ * transformers.js inference shared by LocalEmbeddingProvider and its worker threads
+ */
+
+/**
+ * Load a feature extraction pipeline
+ */
+export async function loadPipeline(model: string, quantized: boolean): Promise<any> {
+  const { pipeline } = await import('@xenova/transformers');
+  return pipeline('feature-extraction', model, { quantized });
+}
+
+/**
+ * Embed texts in padded batches with mean pooling and normalization
+ * Texts are sorted by length first so each batch pads to a similar length,
+ * then the pooled [batch, dimensions] output is split back into one vector
+ * per text in input order.
+ */
+export async function embedTexts(pipeline: any, texts: string[], batchSize: number): Promise<Float32Array[]> {
+  const order = texts.map((_, i) => i).sort((a, b) => texts[a].length - texts[b].length);
+  const embeddings: Float32Array[] = new Array(texts.length);
+
+  for (let start = 0; start < order.length; start += batchSize) {
+    const batch = order.slice(start, start + batchSize);
+    const output = await pipeline(batch.map(i => texts[i]), {
+      pooling: 'mean',
+      normalize: true,
+    });
+
+    const [rows, dimensions] = output.dims;
+    if (rows !== batch.length) {
+      throw new Error(`Model returned ${rows} embeddings for a batch of ${batch.length} texts`);
+    }
+
+    const data: Float32Array = output.data;
+    batch.forEach((index, row) => {
+      // slice() copies, so each vector owns a transferable buffer
+      embeddings[index] = data.slice(row * dimensions, (row + 1) * dimensions);
+    });
+  }
+
+  return embeddings;
+}
@@ -0,0 +1,178 @@
+/**
+ * Vectors packed row by row into one contiguous Float32Array, with parallel
+ * key and item arrays
+ * Rows stay dense: deleting a row moves the last row into its place, so row
+ * numbers and views are only valid until the next mutation.
+ */
+export class EmbeddingMatrix<T> {
+  private data: Float32Array = new Float32Array(0);
+  private dimensions: number = 0;
+  private keys: string[] = [];
+  private items: T[] = [];
+  private rows: Map<string, number> = new Map();
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  /** Rows that fit before the matrix has to grow */
+  get capacity(): number {
+    return this.dimensions === 0 ? 0 : this.data.length / this.dimensions;
+  }
+
+  has(key: string): boolean {
+    return this.rows.has(key);
+  }
+
+  indexOf(key: string): number | undefined {
+    return this.rows.get(key);
+  }
+
+  keyAt(row: number): string {
+    return this.keys[row];
+  }
+
+  itemAt(row: number): T {
+    return this.items[row];
+  }
+
+  /**
+   * Copy of a stored vector
+   */
+  get(key: string): Float32Array | undefined {
+    const row = this.rows.get(key);
+    return row === undefined ? undefined : this.viewAt(row).slice();
+  }
+
+  /**
+   * View of a row's vector without copying, valid until the next mutation
+   */
+  viewAt(row: number): Float32Array {
+    const offset = row * this.dimensions;
+    return this.data.subarray(offset, offset + this.dimensions);
+  }
+
+  /**
+   * Add or overwrite a row
+   */
+  set(key: string, vector: Float32Array, item: T): void {
+    if (this.size === 0) {
+      this.dimensions = vector.length;
+    } else if (vector.length !== this.dimensions) {
+      throw new Error(`Vector for "${key}" has ${vector.length} dimensions, expected ${this.dimensions}`);
+    }
+
+    let row = this.rows.get(key);
+    if (row === undefined) {
+      row = this.keys.length;
+      if (row >= this.capacity) {
+        this.grow(Math.max(16, row * 2));
+      }
+      this.keys.push(key);
+      this.items.push(item);
+      this.rows.set(key, row);
+    } else {
+      this.items[row] = item;
+    }
+
+    this.data.set(vector, row * this.dimensions);
+  }
+
+  /**
+   * Remove a row, moving the last row into its place
+   * @returns true if the key was stored
+   */
+  delete(key: string): boolean {
+    const row = this.rows.get(key);
+    if (row === undefined) return false;
+
+    const last = this.keys.length - 1;
+    if (row !== last) {
+      this.data.copyWithin(row * this.dimensions, last * this.dimensions, (last + 1) * this.dimensions);
+      this.keys[row] = this.keys[last];
+      this.items[row] = this.items[last];
+      this.rows.set(this.keys[row], row);
+    }
+
+    this.keys.pop();
+    this.items.pop();
+    this.rows.delete(key);
+    return true;
+  }
+
+  clear(): void {
+    this.data = new Float32Array(0);
+    this.dimensions = 0;
+    this.keys = [];
+    this.items = [];
+    this.rows.clear();
+  }
+
+  /**
+   * Dot products of a query with every row, or with the given rows
+   * Rows are processed four at a time so each query element is loaded once
+   * per block.
+   * @param out - Receives the score of row r at out[r]; must hold `size` entries
+   */
+  score(query: Float32Array, out: Float32Array, rows?: ArrayLike<number>): void {
+    const dims = this.dimensions;
+    if (this.size > 0 && query.length !== dims) {
+      throw new Error('Vectors must have the same length');
+    }
+
+    const data = this.data;
+    const count = rows ? rows.length : this.size;
+    let i = 0;
+
+    for (; i + 4 <= count; i += 4) {
+      const r0 = rows ? rows[i] : i;
+      const r1 = rows ? rows[i + 1] : i + 1;
+      const r2 = rows ? rows[i + 2] : i + 2;
+      const r3 = rows ? rows[i + 3] : i + 3;
+      const o0 = r0 * dims;
+      const o1 = r1 * dims;
+      const o2 = r2 * dims;
+      const o3 = r3 * dims;
+
+      let s0 = 0;
+      let s1 = 0;
+      let s2 = 0;
+      let s3 = 0;
+      for (let d = 0; d < dims; d++) {
+        const q = query[d];
+        s0 += q * data[o0 + d];
+        s1 += q * data[o1 + d];
+        s2 += q * data[o2 + d];
+        s3 += q * data[o3 + d];
+      }
+
+      out[r0] = s0;
+      out[r1] = s1;
+      out[r2] = s2;
+      out[r3] = s3;
+    }
+
+    for (; i < count; i++) {
+      const r = rows ? rows[i] : i;
+      const offset = r * dims;
+      let sum = 0;
+      for (let d = 0; d < dims; d++) {
+        sum += query[d] * data[offset + d];
+      }
+      out[r] = sum;
+    }
+  }
+
+  /**
+   * Bytes used by stored vectors
+   */
+  getBytes(): number {
+    return this.size * this.dimensions * 4;
+  }
+
+  private grow(capacity: number): void {
+    const data = new Float32Array(capacity * this.dimensions);
+    data.set(this.data.subarray(0, this.size * this.dimensions));
+    this.data = data;
+  }
+}
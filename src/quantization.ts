@@ -0,0 +1,157 @@
+/**
+ * Quantization schemes for stored tool embeddings
+ * - int8: 1 byte per dimension with a per-vector scale (4x smaller than float32)
+ * - binary: 1 bit per dimension holding the sign (32x smaller than float32)
+ */
+export type QuantizationType = 'int8' | 'binary';
+
+/**
+ * A query prepared once per search for scoring against quantized vectors
+ */
+export interface QuantizedQuery {
+  vector: Float32Array;
+
+  /** Sign bits of the query (binary only) */
+  bits?: Uint32Array;
+}
+
+/**
+ * Quantized copies of normalized vectors for a cheap first scoring pass
+ * Scores approximate cosine similarity; callers rescore the best candidates
+ * against full-precision vectors.
+ */
+export class QuantizedVectorIndex {
+  readonly type: QuantizationType;
+  private int8Vectors: Map<string, { codes: Int8Array; scale: number }> = new Map();
+  private binaryVectors: Map<string, { bits: Uint32Array; dimensions: number }> = new Map();
+
+  constructor(type: QuantizationType) {
+    if (type !== 'int8' && type !== 'binary') {
+      throw new Error(`Unknown quantization type "${type}" (expected "int8" or "binary")`);
+    }
+    this.type = type;
+  }
+
+  get size(): number {
+    return this.type === 'int8' ? this.int8Vectors.size : this.binaryVectors.size;
+  }
+
+  /**
+   * Quantize and store a normalized vector, replacing any previous one
+   */
+  set(key: string, vector: Float32Array): void {
+    if (this.type === 'int8') {
+      this.int8Vectors.set(key, quantizeInt8(vector));
+    } else {
+      this.binaryVectors.set(key, { bits: packSignBits(vector), dimensions: vector.length });
+    }
+  }
+
+  delete(key: string): boolean {
+    return this.type === 'int8' ? this.int8Vectors.delete(key) : this.binaryVectors.delete(key);
+  }
+
+  clear(): void {
+    this.int8Vectors.clear();
+    this.binaryVectors.clear();
+  }
+
+  prepareQuery(vector: Float32Array): QuantizedQuery {
+    return this.type === 'binary' ? { vector, bits: packSignBits(vector) } : { vector };
+  }
+
+  /**
+   * Approximate cosine similarity between a prepared query and a stored vector
+   * int8 is scored asymmetrically (float query against int8 codes); binary uses
+   * the Hamming distance between sign codes, mapped to [-1, 1].
+   */
+  score(query: QuantizedQuery, key: string): number {
+    if (this.type === 'int8') {
+      const { codes, scale } = this.int8Vectors.get(key)!;
+      const vector = query.vector;
+      let sum = 0;
+      for (let i = 0; i < codes.length; i++) {
+        sum += vector[i] * codes[i];
+      }
+      return sum * scale;
+    }
+
+    const { bits, dimensions } = this.binaryVectors.get(key)!;
+    const queryBits = query.bits!;
+    let differing = 0;
+    for (let i = 0; i < bits.length; i++) {
+      differing += popCount(bits[i] ^ queryBits[i]);
+    }
+    return 1 - (2 * differing) / dimensions;
+  }
+
+  /**
+   * Reconstruct an approximate normalized vector
+   */
+  dequantize(key: string): Float32Array | undefined {
+    if (this.type === 'int8') {
+      const entry = this.int8Vectors.get(key);
+      if (!entry) return undefined;
+      return Float32Array.from(entry.codes, code => code * entry.scale);
+    }
+
+    const entry = this.binaryVectors.get(key);
+    if (!entry) return undefined;
+    const magnitude = 1 / Math.sqrt(entry.dimensions);
+    const vector = new Float32Array(entry.dimensions);
+    for (let i = 0; i < entry.dimensions; i++) {
+      vector[i] = (entry.bits[i >>> 5] >>> (i & 31)) & 1 ? magnitude : -magnitude;
+    }
+    return vector;
+  }
+
+  /**
+   * Approximate bytes used by quantized vectors
+   */
+  getBytes(): number {
+    let bytes = 0;
+    for (const { codes } of this.int8Vectors.values()) {
+      bytes += codes.byteLength + 8;
+    }
+    for (const { bits } of this.binaryVectors.values()) {
+      bytes += bits.byteLength;
+    }
+    return bytes;
+  }
+}
+
+/**
+ * Quantize to int8 with a per-vector scale so the largest component maps to ±127
+ */
+function quantizeInt8(vector: Float32Array): { codes: Int8Array; scale: number } {
+  let maxAbs = 0;
+  for (let i = 0; i < vector.length; i++) {
+    maxAbs = Math.max(maxAbs, Math.abs(vector[i]));
+  }
+
+  const scale = maxAbs === 0 ? 1 : maxAbs / 127;
+  const codes = new Int8Array(vector.length);
+  for (let i = 0; i < vector.length; i++) {
+    codes[i] = Math.round(vector[i] / scale);
+  }
+  return { codes, scale };
+}
+
+/**
+ * Pack one sign bit per dimension (1 = non-negative)
+ */
+function packSignBits(vector: Float32Array): Uint32Array {
+  const bits = new Uint32Array(Math.ceil(vector.length / 32));
+  for (let i = 0; i < vector.length; i++) {
+    if (vector[i] >= 0) {
+      bits[i >>> 5] |= 1 << (i & 31);
+    }
+  }
+  return bits;
+}
+
+function popCount(value: number): number {
+  value = value - ((value >>> 1) & 0x55555555);
+  value = (value & 0x33333333) + ((value >>> 2) & 0x33333333);
+  return (((value + (value >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
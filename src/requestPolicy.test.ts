@@ -0,0 +1,177 @@
+/**
+ * Tests for request timeouts, retries and rate limiting against a local fake server
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { RequestPolicy, createEmbeddingProvider } from '../src';
+
+/**
+ * Start a fake server; the handler sees the 0-based index of each request
+ */
+async function startFakeServer(handler: (index: number, req: IncomingMessage, res: ServerResponse) => void) {
+  const times: number[] = [];
+  const server = createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      times.push(Date.now());
+      handler(times.length - 1, req, res);
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    times,
+    close: () => {
+      // Drop hung requests left by timeout tests
+      server.closeAllConnections();
+      return new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+}
+
+function sendJson(res: ServerResponse, status: number, body: any, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+describe('RequestPolicy', () => {
+  let server: Awaited<ReturnType<typeof startFakeServer>>;
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  test('should retry server errors with backoff until a request succeeds', async () => {
+    server = await startFakeServer((index, _req, res) => {
+      sendJson(res, index < 2 ? 503 : 200, { ok: index >= 2 });
+    });
+    const policy = new RequestPolicy({ initialBackoffMs: 10 });
+
+    const response = await policy.fetch(server.url);
+
+    expect(response.status).toBe(200);
+    expect(server.times).toHaveLength(3);
+  });
+
+  test('should wait as long as Retry-After asks', async () => {
+    server = await startFakeServer((index, _req, res) => {
+      if (index === 0) {
+        sendJson(res, 429, { error: 'rate limited' }, { 'Retry-After': '1' });
+      } else {
+        sendJson(res, 200, {});
+      }
+    });
+    const policy = new RequestPolicy({ initialBackoffMs: 10 });
+
+    await policy.fetch(server.url);
+
+    expect(server.times[1] - server.times[0]).toBeGreaterThanOrEqual(950);
+  });
+
+  test('should return the last response once retries are exhausted', async () => {
+    server = await startFakeServer((_index, _req, res) => sendJson(res, 429, {}));
+    const policy = new RequestPolicy({ maxRetries: 2, initialBackoffMs: 10 });
+
+    const response = await policy.fetch(server.url);
+
+    expect(response.status).toBe(429);
+    expect(server.times).toHaveLength(3);
+  });
+
+  test('should not retry client errors', async () => {
+    server = await startFakeServer((_index, _req, res) => sendJson(res, 400, {}));
+    const policy = new RequestPolicy({ initialBackoffMs: 10 });
+
+    expect((await policy.fetch(server.url)).status).toBe(400);
+    expect(server.times).toHaveLength(1);
+  });
+
+  test('should time out hung requests and retry them', async () => {
+    server = await startFakeServer((index, _req, res) => {
+      // The first request never gets a response
+      if (index > 0) sendJson(res, 200, {});
+    });
+    const policy = new RequestPolicy({ timeoutMs: 100, initialBackoffMs: 10 });
+
+    expect((await policy.fetch(server.url)).status).toBe(200);
+    expect(server.times).toHaveLength(2);
+  });
+
+  test('should fail with a timeout error when every attempt hangs', async () => {
+    server = await startFakeServer(() => undefined);
+    const policy = new RequestPolicy({ timeoutMs: 50, maxRetries: 1, initialBackoffMs: 10 });
+
+    await expect(policy.fetch(server.url)).rejects.toThrow('timed out after 50ms');
+    expect(server.times).toHaveLength(2);
+  });
+
+  test('should time out a response whose body stalls', async () => {
+    server = await startFakeServer((_index, _req, res) => {
+      // Headers and the start of the body, then nothing
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.write('{"data": [');
+    });
+    const policy = new RequestPolicy({ timeoutMs: 100, maxRetries: 1, initialBackoffMs: 10 });
+    const provider = createEmbeddingProvider({ provider: 'ollama', baseURL: server.url, requestPolicy: policy });
+
+    await expect(policy.fetch(server.url)).rejects.toThrow('timed out after 100ms');
+    await expect(provider.embed('hello')).rejects.toThrow('timed out after 100ms');
+    expect(server.times).toHaveLength(4);
+  });
+
+  test('should hold requests back once the tokens per minute are used', async () => {
+    server = await startFakeServer((_index, _req, res) => sendJson(res, 200, {}));
+    const policy = new RequestPolicy({ tokensPerMinute: 600 });
+
+    const start = Date.now();
+    await policy.fetch(server.url, {}, 600);
+    await policy.fetch(server.url, {}, 10);
+
+    // 10 tokens refill in one second at 600 per minute
+    expect(server.times[0] - start).toBeLessThan(500);
+    expect(server.times[1] - start).toBeGreaterThanOrEqual(950);
+  });
+
+  test('should be shared by providers and applied to their requests', async () => {
+    server = await startFakeServer((index, req, res) => {
+      if (index === 0) {
+        sendJson(res, 503, { message: 'overloaded' });
+      } else if (req.url === '/embed') {
+        sendJson(res, 200, { embeddings: { float: [[0, 1]] } });
+      } else {
+        sendJson(res, 200, { object: 'list', data: [{ object: 'embedding', embedding: [1, 0], index: 0 }] });
+      }
+    });
+    const requestPolicy = new RequestPolicy({ initialBackoffMs: 10, requestsPerMinute: 60 });
+    const voyage = createEmbeddingProvider({ provider: 'voyage', apiKey: 'key', baseURL: server.url, requestPolicy });
+    const cohere = createEmbeddingProvider({ provider: 'cohere', apiKey: 'key', baseURL: server.url, requestPolicy });
+
+    expect(await voyage.embed('hello')).toEqual(new Float32Array([1, 0]));
+    expect(await cohere.embed('hello')).toEqual(new Float32Array([0, 1]));
+    expect(server.times).toHaveLength(3);
+  });
+
+  test('should apply to the OpenAI SDK client', async () => {
+    server = await startFakeServer((index, _req, res) => {
+      if (index === 0) {
+        sendJson(res, 500, { error: { message: 'server error' } });
+      } else {
+        const embedding = Buffer.from(new Float32Array([0.5, 0.5]).buffer).toString('base64');
+        sendJson(res, 200, { object: 'list', data: [{ object: 'embedding', embedding, index: 0 }] });
+      }
+    });
+    const provider = createEmbeddingProvider({
+      provider: 'openai',
+      apiKey: 'key',
+      baseURL: server.url,
+      requestPolicy: { initialBackoffMs: 10 },
+    });
+
+    expect(await provider.embed('hello')).toEqual(new Float32Array([0.5, 0.5]));
+    expect(server.times).toHaveLength(2);
+  });
+});
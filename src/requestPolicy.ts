@@ -0,0 +1,204 @@
+import { RequestPolicyConfig } from './types.js';
+
+// Statuses worth retrying: request timeout, conflict, too early, rate limited and server errors
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504]);
+
+/**
+ * Timeouts, retries and client-side rate limiting for embedding API requests
+ * Every HTTP-based provider sends its requests through a policy. Pass one
+ * instance to several providers to share a single rate limit budget.
+ */
+export class RequestPolicy {
+  private timeoutMs: number;
+  private maxRetries: number;
+  private initialBackoffMs: number;
+  private maxBackoffMs: number;
+  private limiter?: RateLimiter;
+
+  constructor(config: RequestPolicyConfig = {}) {
+    this.timeoutMs = config.timeoutMs ?? 30000;
+    this.maxRetries = config.maxRetries ?? 3;
+    this.initialBackoffMs = config.initialBackoffMs ?? 500;
+    this.maxBackoffMs = config.maxBackoffMs ?? 30000;
+
+    if (config.requestsPerMinute !== undefined || config.tokensPerMinute !== undefined) {
+      this.limiter = new RateLimiter(config.requestsPerMinute, config.tokensPerMinute);
+    }
+  }
+
+  /**
+   * Send a request, retrying network errors, timeouts and retryable statuses
+   * After the last retry the final response is returned as is, so callers
+   * report API errors the same way with or without a policy.
+   * @param tokens - Estimated input tokens, counted against tokensPerMinute
+   */
+  async fetch(url: string | URL, init: RequestInit = {}, tokens: number = 0): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      await this.limiter?.acquire(tokens);
+
+      let response: Response;
+      try {
+        response = await this.fetchWithTimeout(url, init);
+      } catch (error) {
+        // Aborted by the caller: not ours to retry
+        if (init.signal?.aborted || attempt >= this.maxRetries) throw error;
+        await sleep(this.backoff(attempt));
+        continue;
+      }
+
+      if (!RETRYABLE_STATUSES.has(response.status) || attempt >= this.maxRetries) {
+        return response;
+      }
+
+      // Free the connection before waiting
+      await response.body?.cancel().catch(() => undefined);
+      await sleep(this.retryAfter(response) ?? this.backoff(attempt));
+    }
+  }
+
+  /**
+   * Send one attempt; the timeout covers reading the body too
+   * The body is read while the timer runs and returned buffered, so a server
+   * that stalls mid-body fails the attempt instead of hanging the caller's
+   * response.json().
+   */
+  private async fetchWithTimeout(url: string | URL, init: RequestInit): Promise<Response> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(init.signal!.reason);
+    init.signal?.addEventListener('abort', onAbort, { once: true });
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.timeoutMs);
+
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      const body = response.body === null ? null : await response.arrayBuffer();
+      const buffered = new Response(body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      });
+      Object.defineProperty(buffered, 'url', { value: response.url });
+      return buffered;
+    } catch (error) {
+      if (timedOut) {
+        throw new Error(`Request to ${url} timed out after ${this.timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      init.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Exponential backoff with full jitter
+   */
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(this.maxBackoffMs, this.initialBackoffMs * 2 ** attempt);
+    return Math.random() * ceiling;
+  }
+
+  /**
+   * Delay requested by a Retry-After header (seconds or HTTP date), capped at maxBackoffMs
+   */
+  private retryAfter(response: Response): number | undefined {
+    const header = response.headers.get('retry-after');
+    if (header === null) return undefined;
+
+    const seconds = Number(header);
+    const delay = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+    if (Number.isNaN(delay)) return undefined;
+    return Math.min(this.maxBackoffMs, Math.max(0, delay));
+  }
+}
+
+/**
+ * Use a shared policy as is, or build one from config
+ */
+export function resolveRequestPolicy(policy?: RequestPolicyConfig | RequestPolicy): RequestPolicy {
+  return policy instanceof RequestPolicy ? policy : new RequestPolicy(policy);
+}
+
+/**
+ * Estimate input tokens at 4 characters each, as in truncateToTokens
+ */
+export function estimateInputTokens(texts: string[]): number {
+  return texts.reduce((sum, text) => sum + Math.ceil(text.length / 4), 0);
+}
+
+/**
+ * Token buckets for requests and tokens per minute
+ * Each bucket holds a minute's budget and refills continuously. Callers are
+ * served in order, so a large request is not starved by small ones.
+ */
+class RateLimiter {
+  private requests?: TokenBucket;
+  private tokens?: TokenBucket;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(requestsPerMinute?: number, tokensPerMinute?: number) {
+    if (requestsPerMinute !== undefined) this.requests = new TokenBucket(requestsPerMinute);
+    if (tokensPerMinute !== undefined) this.tokens = new TokenBucket(tokensPerMinute);
+  }
+
+  acquire(tokens: number): Promise<void> {
+    const turn = this.queue.then(() => this.waitFor(tokens));
+    this.queue = turn;
+    return turn;
+  }
+
+  private async waitFor(tokens: number): Promise<void> {
+    for (;;) {
+      const delay = Math.max(this.requests?.delayFor(1) ?? 0, this.tokens?.delayFor(tokens) ?? 0);
+      if (delay === 0) {
+        this.requests?.take(1);
+        this.tokens?.take(tokens);
+        return;
+      }
+      await sleep(delay);
+    }
+  }
+}
+
+class TokenBucket {
+  private capacity: number;
+  private available: number;
+  private perMs: number;
+  private updatedAt: number = Date.now();
+
+  constructor(perMinute: number) {
+    if (!(perMinute > 0)) {
+      throw new Error(`Rate limits must be positive, got ${perMinute}`);
+    }
+    this.capacity = perMinute;
+    this.available = perMinute;
+    this.perMs = perMinute / 60000;
+  }
+
+  /**
+   * Milliseconds until cost fits; costs above capacity wait for a full bucket
+   */
+  delayFor(cost: number): number {
+    this.refill();
+    const needed = Math.min(cost, this.capacity);
+    return this.available >= needed ? 0 : Math.ceil((needed - this.available) / this.perMs);
+  }
+
+  take(cost: number): void {
+    this.available -= Math.min(cost, this.capacity);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.available = Math.min(this.capacity, this.available + (now - this.updatedAt) * this.perMs);
+    this.updatedAt = now;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
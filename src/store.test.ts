@@ -0,0 +1,129 @@
+/**
+ * Tests for embedding stores
+ */
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MemoryEmbeddingStore, FileSystemEmbeddingStore, EmbeddingStoreKey } from '../src';
+
+const key = (textHash: string, dimensions: number = 4): EmbeddingStoreKey => ({
+  provider: 'openai',
+  model: 'text-embedding-3-small',
+  dimensions,
+  role: 'document',
+  textHash,
+});
+
+const vector = (...values: number[]) => new Float32Array(values);
+
+describe('MemoryEmbeddingStore', () => {
+  test('should return cached embeddings and count hits and misses', async () => {
+    const store = new MemoryEmbeddingStore();
+    await store.setMany([{ key: key('a'), embedding: vector(1, 0, 0, 0) }]);
+
+    const [hit, miss] = await store.getMany([key('a'), key('b')]);
+
+    expect(hit).toEqual(vector(1, 0, 0, 0));
+    expect(miss).toBeUndefined();
+    expect(store.getStats()).toEqual({ entries: 1, bytes: 16, hits: 1, misses: 1 });
+  });
+
+  test('should keep embeddings of different models and roles apart', async () => {
+    const store = new MemoryEmbeddingStore();
+    await store.setMany([{ key: key('a'), embedding: vector(1, 0, 0, 0) }]);
+
+    const [otherModel, otherRole] = await store.getMany([
+      { ...key('a'), model: 'other-model' },
+      { ...key('a'), role: 'query' },
+    ]);
+    expect(otherModel).toBeUndefined();
+    expect(otherRole).toBeUndefined();
+  });
+
+  test('should evict least recently used entries beyond maxEntries', async () => {
+    const store = new MemoryEmbeddingStore({ maxEntries: 2 });
+    await store.setMany([
+      { key: key('a'), embedding: vector(1, 0, 0, 0) },
+      { key: key('b'), embedding: vector(0, 1, 0, 0) },
+    ]);
+    await store.getMany([key('a')]);
+    await store.setMany([{ key: key('c'), embedding: vector(0, 0, 1, 0) }]);
+
+    const [a, b, c] = await store.getMany([key('a'), key('b'), key('c')]);
+    expect(a).toBeDefined();
+    expect(b).toBeUndefined();
+    expect(c).toBeDefined();
+  });
+});
+
+describe('FileSystemEmbeddingStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'mcp-tool-filter-store-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test('should share embeddings between store instances', async () => {
+    const writer = new FileSystemEmbeddingStore({ directory });
+    await writer.setMany([{ key: key('a'), embedding: vector(0.5, 0.5, 0.5, 0.5) }]);
+
+    const reader = new FileSystemEmbeddingStore({ directory });
+    const [hit, miss] = await reader.getMany([key('a'), key('b')]);
+
+    expect(hit).toEqual(vector(0.5, 0.5, 0.5, 0.5));
+    expect(miss).toBeUndefined();
+    expect(reader.getStats()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  test('should ignore files with the wrong length', async () => {
+    const store = new FileSystemEmbeddingStore({ directory });
+    await store.setMany([{ key: key('a'), embedding: vector(1, 0, 0, 0) }]);
+
+    const [result] = await store.getMany([key('a', 8)]);
+    expect(result).toBeUndefined();
+  });
+
+  test('should keep keys apart whose directory labels look alike', async () => {
+    const store = new FileSystemEmbeddingStore({ directory });
+    await store.setMany([
+      { key: { ...key('a'), model: 'org/model' }, embedding: vector(1, 0, 0, 0) },
+      { key: { ...key('a'), model: 'org-model' }, embedding: vector(0, 1, 0, 0) },
+    ]);
+
+    const [replacedCharacter, movedDash] = await store.getMany([
+      { ...key('a'), model: 'org_model' },
+      { ...key('a'), provider: 'openai-org', model: 'model' },
+    ]);
+    expect(replacedCharacter).toBeUndefined();
+    expect(movedDash).toBeUndefined();
+  });
+
+  test('should count a rewritten key once', async () => {
+    const store = new FileSystemEmbeddingStore({ directory });
+    await store.setMany([{ key: key('a'), embedding: vector(1, 2, 3, 4) }]);
+    await store.setMany([{ key: key('a'), embedding: vector(4, 3, 2, 1) }]);
+
+    // A second instance sharing the directory rewrites the same key too
+    const other = new FileSystemEmbeddingStore({ directory });
+    await other.setMany([{ key: key('a'), embedding: vector(1, 1, 1, 1) }]);
+
+    expect(store.getStats()).toMatchObject({ entries: 1, bytes: 16 });
+    expect(other.getStats()).toMatchObject({ entries: 1, bytes: 16 });
+  });
+
+  test('should prune down to maxBytes', async () => {
+    const store = new FileSystemEmbeddingStore({ directory, maxBytes: 32 });
+    for (const textHash of ['a1', 'b1', 'c1']) {
+      await store.setMany([{ key: key(textHash), embedding: vector(1, 2, 3, 4) }]);
+    }
+
+    const stats = store.getStats();
+    expect(stats.entries).toBe(2);
+    expect(stats.bytes).toBe(32);
+  });
+});
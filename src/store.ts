@@ -0,0 +1,286 @@
+import { mkdir, readFile, writeFile, readdir, stat, rm, rename, utimes } from 'node:fs/promises';
+import { join } from 'node:path';
+import { LRUCache, sha256 } from './utils.js';
+import type { EmbeddingRole } from './embedding.js';
+
+/**
+ * Content address of a cached embedding
+ * Embeddings are only interchangeable when all parts match.
+ */
+export interface EmbeddingStoreKey {
+  provider: string;
+  model: string;
+  dimensions: number;
+
+  /** Asymmetric models embed queries and documents differently */
+  role: EmbeddingRole;
+
+  /** SHA-256 of the embedded text */
+  textHash: string;
+}
+
+/**
+ * Embedding store statistics
+ */
+export interface EmbeddingStoreStats {
+  /** Number of cached embeddings */
+  entries: number;
+
+  /** Approximate bytes used by cached embeddings */
+  bytes: number;
+
+  /** Lookups that returned an embedding */
+  hits: number;
+
+  /** Lookups that found nothing */
+  misses: number;
+}
+
+/**
+ * Pluggable cache of normalized embeddings, shareable across filter instances
+ */
+export interface EmbeddingStore {
+  /**
+   * Look up embeddings, returning undefined for keys that are not cached
+   */
+  getMany(keys: EmbeddingStoreKey[]): Promise<Array<Float32Array | undefined>>;
+
+  /**
+   * Cache embeddings
+   */
+  setMany(entries: Array<{ key: EmbeddingStoreKey; embedding: Float32Array }>): Promise<void>;
+
+  /**
+   * Remove all cached embeddings
+   */
+  clear(): Promise<void>;
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): EmbeddingStoreStats;
+}
+
+/**
+ * Serialize a key into a single string
+ */
+function keyToString(key: EmbeddingStoreKey): string {
+  return `${key.provider}\u0000${key.model}\u0000${key.dimensions}\u0000${key.role}\u0000${key.textHash}`;
+}
+
+/**
+ * In-memory embedding store with LRU eviction
+ * Shared by passing the same instance to several filters in one process.
+ */
+export class MemoryEmbeddingStore implements EmbeddingStore {
+  private cache: LRUCache<string, Float32Array>;
+  private hits: number = 0;
+  private misses: number = 0;
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.cache = new LRUCache(options.maxEntries ?? 10000);
+  }
+
+  async getMany(keys: EmbeddingStoreKey[]): Promise<Array<Float32Array | undefined>> {
+    return keys.map(key => {
+      const embedding = this.cache.get(keyToString(key));
+      if (embedding === undefined) {
+        this.misses++;
+      } else {
+        this.hits++;
+      }
+      return embedding;
+    });
+  }
+
+  async setMany(entries: Array<{ key: EmbeddingStoreKey; embedding: Float32Array }>): Promise<void> {
+    for (const { key, embedding } of entries) {
+      this.cache.set(keyToString(key), embedding);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.cache.clear();
+  }
+
+  getStats(): EmbeddingStoreStats {
+    let bytes = 0;
+    for (const embedding of this.cache.values()) {
+      bytes += embedding.byteLength;
+    }
+
+    return {
+      entries: this.cache.size,
+      bytes,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+}
+
+/**
+ * Filesystem embedding store
+ * Each embedding is one file of raw float32 bytes, so several processes can
+ * share a directory. When the directory grows beyond maxBytes, the least
+ * recently used files are deleted.
+ */
+export class FileSystemEmbeddingStore implements EmbeddingStore {
+  private directory: string;
+  private maxBytes: number;
+  private bytes: number | undefined;
+  private entries: number = 0;
+  private hits: number = 0;
+  private misses: number = 0;
+
+  constructor(options: { directory: string; maxBytes?: number }) {
+    this.directory = options.directory;
+    this.maxBytes = options.maxBytes ?? 256 * 1024 * 1024;
+  }
+
+  async getMany(keys: EmbeddingStoreKey[]): Promise<Array<Float32Array | undefined>> {
+    return Promise.all(keys.map(async key => {
+      const embedding = await this.read(key);
+      if (embedding === undefined) {
+        this.misses++;
+      } else {
+        this.hits++;
+      }
+      return embedding;
+    }));
+  }
+
+  async setMany(entries: Array<{ key: EmbeddingStoreKey; embedding: Float32Array }>): Promise<void> {
+    if (entries.length === 0) return;
+
+    await this.ensureSizeKnown();
+
+    for (const { key, embedding } of entries) {
+      const dir = this.getEntryDirectory(key);
+      await mkdir(dir, { recursive: true });
+
+      // Write to a temp file and rename so concurrent readers never see a partial file
+      const path = join(dir, `${key.textHash}.bin`);
+      const tempPath = `${path}.${process.pid}.${Date.now()}.tmp`;
+      await writeFile(tempPath, Buffer.from(embedding.buffer, embedding.byteOffset, embedding.byteLength));
+
+      // Replacing a file (e.g. one another filter already wrote) only changes its size
+      const previousSize = await stat(path).then(stats => stats.size, () => undefined);
+      await rename(tempPath, path);
+
+      this.bytes! += embedding.byteLength - (previousSize ?? 0);
+      if (previousSize === undefined) this.entries++;
+    }
+
+    if (this.bytes! > this.maxBytes) {
+      await this.prune();
+    }
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.directory, { recursive: true, force: true });
+    this.bytes = 0;
+    this.entries = 0;
+  }
+
+  getStats(): EmbeddingStoreStats {
+    return {
+      entries: this.entries,
+      bytes: this.bytes ?? 0,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+
+  /**
+   * Delete least recently used files until the store fits in maxBytes
+   * Rescans the directory, since other processes may share it.
+   */
+  async prune(): Promise<void> {
+    const files = await this.listFiles();
+    let total = files.reduce((sum, file) => sum + file.size, 0);
+
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    let remaining = files.length;
+    for (const file of files) {
+      if (total <= this.maxBytes) break;
+      await rm(file.path, { force: true });
+      total -= file.size;
+      remaining--;
+    }
+
+    this.bytes = total;
+    this.entries = remaining;
+  }
+
+  private async read(key: EmbeddingStoreKey): Promise<Float32Array | undefined> {
+    const path = join(this.getEntryDirectory(key), `${key.textHash}.bin`);
+
+    let bytes: Buffer;
+    try {
+      bytes = await readFile(path);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+
+    // Ignore truncated or foreign files
+    if (bytes.length !== key.dimensions * 4) {
+      return undefined;
+    }
+
+    // Touch the file so pruning treats it as recently used
+    const now = new Date();
+    await utimes(path, now, now).catch(() => undefined);
+
+    const embedding = new Float32Array(key.dimensions);
+    new Uint8Array(embedding.buffer).set(bytes);
+    return embedding;
+  }
+
+  /**
+   * Directory of a key's entries: a readable label for browsing, made unique by
+   * the hash of the exact key parts (the label alone maps e.g. "a/b" and "a_b" together)
+   */
+  private getEntryDirectory(key: EmbeddingStoreKey): string {
+    const label = `${key.provider}-${key.model}-${key.dimensions}-${key.role}`.replace(/[^A-Za-z0-9._-]/g, '_');
+    const hash = sha256(keyToString({ ...key, textHash: '' }));
+    return join(this.directory, `${label}-${hash}`, key.textHash.slice(0, 2));
+  }
+
+  private async ensureSizeKnown(): Promise<void> {
+    if (this.bytes !== undefined) return;
+
+    const files = await this.listFiles();
+    this.bytes = files.reduce((sum, file) => sum + file.size, 0);
+    this.entries = files.length;
+  }
+
+  private async listFiles(): Promise<Array<{ path: string; size: number; mtimeMs: number }>> {
+    const files: Array<{ path: string; size: number; mtimeMs: number }> = [];
+
+    const walk = async (dir: string): Promise<void> => {
+      let names: string[];
+      try {
+        names = await readdir(dir);
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return;
+        throw error;
+      }
+
+      for (const name of names) {
+        const path = join(dir, name);
+        const info = await stat(path).catch(() => undefined);
+        if (info === undefined) continue;
+
+        if (info.isDirectory()) {
+          await walk(path);
+        } else if (name.endsWith('.bin')) {
+          files.push({ path, size: info.size, mtimeMs: info.mtimeMs });
+        }
+      }
+    };
+
+    await walk(this.directory);
+    return files;
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Tests for tokenizers and token-based context budgets
+ */
+
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { BPETokenizer, TransformersTokenizer, MCPToolFilter, HashEmbeddingProvider, MCPServer } from '../src';
+import { buildContextString, truncateToTokens } from '../src/utils';
+import { RolePrefixEmbeddingProvider } from '../src/embedding';
+
+/**
+ * Write a tiktoken ranks file: every single byte, then the given merges
+ */
+async function writeVocab(path: string, merges: string[], skipBytes: number[] = []): Promise<void> {
+  const tokens: Buffer[] = [];
+  for (let byte = 0; byte < 256; byte++) {
+    if (!skipBytes.includes(byte)) tokens.push(Buffer.from([byte]));
+  }
+  tokens.push(...merges.map(merge => Buffer.from(merge, 'utf8')));
+
+  await writeFile(path, tokens.map((token, rank) => `${token.toString('base64')} ${rank}`).join('\n') + '\n');
+}
+
+describe('BPETokenizer', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'mcp-tokenizer-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test('should merge byte pairs in rank order', async () => {
+    await writeVocab(join(directory, 'vocab.tiktoken'), ['he', 'll', 'hell', ' w', 'or']);
+    const tokenizer = await BPETokenizer.fromFile(join(directory, 'vocab.tiktoken'), { maxInputTokens: 8191 });
+
+    // he=256, ll=257, hell=258, " w"=259, or=260
+    expect(tokenizer.encode('hello')).toEqual([258, 111]);
+    expect(tokenizer.encode('hello world')).toEqual([258, 111, 259, 260, 108, 100]);
+    expect(tokenizer.maxInputTokens).toBe(8191);
+  });
+
+  test('should round-trip text through its UTF-8 bytes', async () => {
+    await writeVocab(join(directory, 'vocab.tiktoken'), ['he', 'll']);
+    const tokenizer = await BPETokenizer.fromFile(join(directory, 'vocab.tiktoken'));
+    const text = "héllo wörld, it's 東京\nconst x = 42;";
+
+    const tokens = tokenizer.encode(text);
+
+    expect(tokenizer.decode(tokens)).toBe(text);
+    // Three bytes per CJK character without merges
+    expect(tokenizer.encode('東京')).toHaveLength(6);
+  });
+
+  test('should reject malformed vocabulary files', async () => {
+    await writeFile(join(directory, 'vocab.tiktoken'), 'aGk= 0\nnot-a-rank\n');
+
+    await expect(BPETokenizer.fromFile(join(directory, 'vocab.tiktoken'))).rejects.toThrow('line 2');
+  });
+
+  test('should report bytes missing from the vocabulary', async () => {
+    await writeVocab(join(directory, 'vocab.tiktoken'), [], [0x7a]);
+    const tokenizer = await BPETokenizer.fromFile(join(directory, 'vocab.tiktoken'));
+
+    expect(() => tokenizer.encode('zoo')).toThrow('no token for byte 0x7a');
+  });
+
+  test('should budget context in real tokens', async () => {
+    await writeVocab(join(directory, 'vocab.tiktoken'), []);
+    const tokenizer = await BPETokenizer.fromFile(join(directory, 'vocab.tiktoken'));
+    const text = '東京の天気を教えてください'.repeat(20);
+
+    // 4 characters per token badly underestimates CJK text
+    expect(truncateToTokens(text, 100)).toBe(text);
+    // 100 tokens hold 33 whole characters; the partial one is dropped
+    expect(truncateToTokens(text, 100, tokenizer)).toBe(text.slice(0, 33));
+    expect(tokenizer.encode(buildContextString(text, 3, 30, 'tail', tokenizer)).length).toBeLessThanOrEqual(30);
+  });
+});
+
+describe('TransformersTokenizer', () => {
+  // Stand-in for a transformers.js WordPiece tokenizer: one token per word, [CLS]/[SEP] as specials
+  const vocab = ['[CLS]', '[SEP]', 'search', 'my', 'email', 'inbox'];
+  const fake = {
+    model_max_length: 512,
+    encode: (text: string, _pair: null, options: { add_special_tokens?: boolean } = {}) => {
+      const ids = text.split(/\s+/).filter(Boolean).map(word => vocab.indexOf(word));
+      return options.add_special_tokens === false ? ids : [0, ...ids, 1];
+    },
+    decode: (ids: number[]) => ids.map(id => vocab[id]).join(' '),
+  };
+
+  test('should encode without special tokens and leave room for them in the limit', () => {
+    const tokenizer = new TransformersTokenizer(fake);
+
+    expect(tokenizer.encode('search my email')).toEqual([2, 3, 4]);
+    expect(tokenizer.decode([2, 5])).toBe('search inbox');
+    expect(tokenizer.decode([])).toBe('');
+    expect(tokenizer.maxInputTokens).toBe(510);
+  });
+
+  test('should have no limit when the model reports none', () => {
+    const tokenizer = new TransformersTokenizer({ ...fake, model_max_length: 1e30 });
+
+    expect(tokenizer.maxInputTokens).toBeUndefined();
+  });
+});
+
+describe('MCPToolFilter with a tokenizer', () => {
+  // One token per word, ids by first appearance
+  const words: string[] = [];
+  const wordTokenizer = {
+    maxInputTokens: 8,
+    encode: (text: string) => text.split(' ').map(word => {
+      if (!words.includes(word)) words.push(word);
+      return words.indexOf(word);
+    }),
+    decode: (tokens: number[]) => tokens.map(token => words[token]).join(' '),
+  };
+
+  class RecordingProvider extends HashEmbeddingProvider {
+    texts: string[] = [];
+
+    async embed(text: string): Promise<Float32Array> {
+      this.texts.push(text);
+      return super.embed(text);
+    }
+
+    async embedBatch(texts: string[]): Promise<Float32Array[]> {
+      this.texts.push(...texts);
+      return super.embedBatch(texts);
+    }
+  }
+
+  const servers: MCPServer[] = [{
+    id: 'mail',
+    name: 'Mail',
+    tools: [{
+      name: 'email_search',
+      description: 'Search emails in your inbox by sender, subject, date range, labels and attachments.',
+    }],
+  }];
+
+  test("should cut context and tool texts to the model's input limit", async () => {
+    const provider = new RecordingProvider();
+    const filter = new MCPToolFilter({ embedding: provider, tokenizer: wordTokenizer, defaultOptions: { minScore: 0 } });
+    await filter.initialize(servers);
+
+    await filter.filter('Please search my emails for the contract that legal sent last week');
+
+    expect(provider.texts.length).toBeGreaterThanOrEqual(2);
+    for (const text of provider.texts) {
+      expect(wordTokenizer.encode(text).length).toBeLessThanOrEqual(8);
+    }
+    expect(provider.texts[provider.texts.length - 1]).toBe('Please search my emails for the contract that');
+  });
+
+  test('should reserve room for role prefixes', async () => {
+    const recorder = new RecordingProvider();
+    const provider = new RolePrefixEmbeddingProvider(recorder, { query: 'query: {text}', document: 'passage: {text}' });
+    const filter = new MCPToolFilter({ embedding: provider, tokenizer: wordTokenizer, defaultOptions: { minScore: 0 } });
+    await filter.initialize(servers);
+
+    await filter.filter('Please search my emails for the contract that legal sent last week');
+
+    for (const text of recorder.texts) {
+      expect(wordTokenizer.encode(text).length).toBeLessThanOrEqual(8);
+    }
+    expect(recorder.texts[0]).toMatch(/^passage: Search emails/);
+    expect(recorder.texts[recorder.texts.length - 1]).toMatch(/^query: Please search my emails/);
+  });
+});
@@ -0,0 +1,166 @@
+import { readFile } from 'node:fs/promises';
+
+/**
+ * Splits text into model tokens, so context budgets match the embedding model
+ * Without a tokenizer, budgets are estimated at 4 characters per token.
+ */
+export interface Tokenizer {
+  /** Token ids of a text, without special tokens */
+  encode(text: string): number[];
+
+  /** Text of a sequence of token ids */
+  decode(tokens: number[]): string;
+
+  /** Optional: Longest input the embedding model accepts, in tokens (excluding special tokens) */
+  readonly maxInputTokens?: number;
+}
+
+/**
+ * Tokenizer of a transformers.js model, e.g. the local provider's model
+ */
+export class TransformersTokenizer implements Tokenizer {
+  readonly maxInputTokens?: number;
+  private tokenizer: any;
+
+  /**
+   * @param tokenizer - A transformers.js tokenizer (from AutoTokenizer.from_pretrained)
+   */
+  constructor(tokenizer: any) {
+    this.tokenizer = tokenizer;
+
+    // Tokenizers without a real limit report a huge placeholder
+    const limit = tokenizer.model_max_length;
+    if (Number.isFinite(limit) && limit < 1e6) {
+      // Leave room for the special tokens the model adds around every input
+      this.maxInputTokens = limit - tokenizer.encode('').length;
+    }
+  }
+
+  /**
+   * Load the tokenizer of a model, e.g. 'Xenova/all-MiniLM-L6-v2'
+   */
+  static async load(model: string): Promise<TransformersTokenizer> {
+    const { AutoTokenizer } = await import('@xenova/transformers');
+    return new TransformersTokenizer(await AutoTokenizer.from_pretrained(model));
+  }
+
+  encode(text: string): number[] {
+    return this.tokenizer.encode(text, null, { add_special_tokens: false });
+  }
+
+  decode(tokens: number[]): string {
+    // transformers.js rejects empty sequences
+    if (tokens.length === 0) return '';
+    return this.tokenizer.decode(tokens, { skip_special_tokens: true });
+  }
+}
+
+/**
+ * Pre-tokenization pattern of OpenAI's cl100k_base encoding
+ */
+const CL100K_PATTERN =
+  /'(?:[sS]|[tT]|[rR][eE]|[vV][eE]|[mM]|[lL][lL]|[dD])|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu;
+
+/**
+ * Byte-level BPE tokenizer over a tiktoken vocabulary
+ * Text is split with a pre-tokenization pattern, and each piece's UTF-8 bytes
+ * are merged pairwise in rank order. Byte sequences are kept as latin1
+ * strings, one character per byte, so they can key a Map.
+ */
+export class BPETokenizer implements Tokenizer {
+  readonly maxInputTokens?: number;
+  private ranks: Map<string, number>;
+  private tokens: string[] = [];
+  private pattern: RegExp;
+
+  /**
+   * @param ranks - Token bytes (as a latin1 string) by rank; ranks are the token ids
+   * @param options.pattern - Pre-tokenization pattern (defaults to cl100k_base's)
+   * @param options.maxInputTokens - Longest input the embedding model accepts
+   */
+  constructor(ranks: Map<string, number>, options: { pattern?: RegExp; maxInputTokens?: number } = {}) {
+    this.ranks = ranks;
+    for (const [bytes, rank] of ranks) {
+      this.tokens[rank] = bytes;
+    }
+
+    const pattern = options.pattern ?? CL100K_PATTERN;
+    this.pattern = pattern.global ? pattern : new RegExp(pattern.source, pattern.flags + 'g');
+    this.maxInputTokens = options.maxInputTokens;
+  }
+
+  /**
+   * Load a tiktoken ranks file: one "<base64 token bytes> <rank>" per line,
+   * e.g. cl100k_base.tiktoken for OpenAI's text-embedding-3 models
+   */
+  static async fromFile(
+    path: string,
+    options: { pattern?: RegExp; maxInputTokens?: number } = {}
+  ): Promise<BPETokenizer> {
+    const ranks = new Map<string, number>();
+    const lines = (await readFile(path, 'utf8')).split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (line === '') continue;
+
+      const [token, rank] = line.split(' ');
+      if (token === undefined || rank === undefined || !/^\d+$/.test(rank)) {
+        throw new Error(`Invalid BPE vocabulary line ${i + 1} in ${path}: "${line}"`);
+      }
+      ranks.set(Buffer.from(token, 'base64').toString('latin1'), Number(rank));
+    }
+
+    return new BPETokenizer(ranks, options);
+  }
+
+  encode(text: string): number[] {
+    const ids: number[] = [];
+
+    for (const piece of text.match(this.pattern) ?? []) {
+      const bytes = Buffer.from(piece, 'utf8').toString('latin1');
+      const rank = this.ranks.get(bytes);
+      if (rank !== undefined) {
+        ids.push(rank);
+      } else {
+        ids.push(...this.mergePiece(bytes));
+      }
+    }
+
+    return ids;
+  }
+
+  decode(tokens: number[]): string {
+    return Buffer.from(tokens.map(token => this.tokens[token] ?? '').join(''), 'latin1').toString('utf8');
+  }
+
+  /**
+   * Merge a piece's bytes, always joining the adjacent pair with the lowest rank
+   */
+  private mergePiece(bytes: string): number[] {
+    const parts = bytes.split('');
+
+    for (;;) {
+      let best = -1;
+      let bestRank = Infinity;
+      for (let i = 0; i < parts.length - 1; i++) {
+        const rank = this.ranks.get(parts[i] + parts[i + 1]);
+        if (rank !== undefined && rank < bestRank) {
+          best = i;
+          bestRank = rank;
+        }
+      }
+
+      if (best === -1) break;
+      parts.splice(best, 2, parts[best] + parts[best + 1]);
+    }
+
+    return parts.map(part => {
+      const rank = this.ranks.get(part);
+      if (rank === undefined) {
+        throw new Error(`BPE vocabulary has no token for byte 0x${part.charCodeAt(0).toString(16)}`);
+      }
+      return rank;
+    });
+  }
+}
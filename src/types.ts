@@ -2,6 +2,13 @@
  * Core types for MCP Tool Filter
  */
 
+import type { EmbeddingStore } from './store.js';
+import type { EmbeddingProvider } from './embedding.js';
+import type { SerializedHNSWIndex } from './hnsw.js';
+import type { QuantizationType } from './quantization.js';
+import type { RequestPolicy } from './requestPolicy.js';
+import type { Tokenizer } from './tokenizer.js';
+
 /**
  * MCP Tool definition
  */
@@ -47,8 +54,47 @@ export interface MCPServer {
  */
 export interface ChatMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
-  content: string;
+
+  /** Message text or content parts; null for assistant messages that only call tools */
+  content: string | ChatContentPart[] | null;
+
   name?: string;
+
+  /** Tools called by an assistant message */
+  tool_calls?: ChatToolCall[];
+
+  /** Call a tool message answers */
+  tool_call_id?: string;
+}
+
+/**
+ * Part of a structured message content (OpenAI and Anthropic formats)
+ * Text parts are read as text, images, audio and files become descriptors such
+ * as "[image attached]", tool_use and tool_result parts count as tool calls and
+ * results, and other parts contribute only their text, if any.
+ */
+export interface ChatContentPart {
+  /** e.g. 'text', 'image_url', 'image', 'input_audio', 'file', 'document', 'tool_use', 'tool_result' */
+  type: string;
+
+  /** Text of 'text' parts */
+  text?: string;
+
+  [key: string]: unknown;
+}
+
+/**
+ * Tool call of an assistant message (OpenAI-compatible)
+ */
+export interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+
+    /** Arguments as a JSON string */
+    arguments: string;
+  };
 }
 
 /**
@@ -71,6 +117,12 @@ export interface ScoredTool {
   
   /** Similarity score (0-1) */
   score: number;
+
+  /** Cosine similarity before fusion (hybrid search only) */
+  semanticScore?: number;
+
+  /** Raw BM25 score before fusion (hybrid search only) */
+  lexicalScore?: number;
 }
 
 /**
@@ -94,6 +146,82 @@ export interface FilterOptions {
   
   /** Maximum tokens for context (default: 500) */
   maxContextTokens?: number;
+
+  /** What to keep when the context exceeds maxContextTokens (default: 'head') */
+  truncation?: TruncationStrategy;
+
+  /** How the recent messages are matched against tools (default: 'concatenated') */
+  contextMode?: ContextMode;
+
+  /** Message weights of the per-message context modes */
+  contextWeights?: ContextWeights;
+
+  /** Longest tool result kept in the context, in tokens; longer ones are summarized or cut, and 0 drops them (default: 100) */
+  maxToolResultTokens?: number;
+
+  /** Score boosts for tools called in the recent messages (default: none) */
+  recentTools?: RecentToolsOptions;
+
+  /** Conversation the request belongs to; the lastResult degradation strategy only applies with one */
+  sessionId?: string;
+}
+
+/**
+ * How the context is cut down to maxContextTokens
+ * - head: keep the start of the joined messages
+ * - tail: keep the end of the joined messages, where the newest turn is
+ * - lastUserMessage: keep the last user message whole, then add earlier messages while they fit
+ * - perMessage: give every message a share of the budget
+ */
+export type TruncationStrategy = 'head' | 'tail' | 'lastUserMessage' | 'perMessage';
+
+/**
+ * How tools called in the last contextMessages messages affect the next selection
+ * Calls are matched to tools by name, on any server.
+ */
+export interface RecentToolsOptions {
+  /** Always include the recently called tools (default: false) */
+  sticky?: boolean;
+
+  /** Added to the score of a recently called tool (default: 0) */
+  boost?: number;
+
+  /** Added to the score of the other tools on a recently called tool's server (default: 0) */
+  serverBoost?: number;
+}
+
+/**
+ * How the recent messages are matched against tools
+ * - concatenated: join the messages and embed them as one text
+ * - weightedEmbedding: embed each message and score tools against their weighted average embedding
+ * - maxScore: score tools against each message; a tool keeps its best weighted score
+ * - weightedScore: score tools against each message and take the weighted average of the scores
+ */
+export type ContextMode = 'concatenated' | 'weightedEmbedding' | 'maxScore' | 'weightedScore';
+
+/**
+ * Weights of the messages in the per-message context modes
+ * A message weighs recencyDecay^age times its role's weight; the newest message has age 0.
+ */
+export interface ContextWeights {
+  /** Weight factor per message of age, in (0, 1] (default: 0.5) */
+  recencyDecay?: number;
+
+  /** Weight of each role's messages; 0 leaves them out (default: user 1, assistant 0.5, tool 0.5) */
+  roleWeights?: Partial<Record<'user' | 'assistant' | 'tool', number>>;
+}
+
+/**
+ * Per-role text templates for asymmetric embedding models
+ * A template containing "{text}" has it replaced by the input; any other
+ * template is used as a prefix (e.g. "query: " / "passage: " for e5 models).
+ */
+export interface RolePrefixes {
+  /** Applied to the conversation context */
+  query?: string;
+
+  /** Applied to tool descriptions */
+  document?: string;
 }
 
 /**
@@ -114,6 +242,38 @@ export interface APIEmbeddingConfig {
   
   /** Optional: Base URL for custom endpoints */
   baseURL?: string;
+
+  /** Optional: Embedding type to request from Cohere (default: 'float') */
+  embeddingType?: 'float' | 'int8';
+
+  /** Optional: Per-role prefix templates, applied before the provider's native role handling */
+  rolePrefixes?: RolePrefixes;
+
+  /** Optional: Timeouts, retries and rate limits, or a RequestPolicy shared with other providers */
+  requestPolicy?: RequestPolicyConfig | RequestPolicy;
+}
+
+/**
+ * Timeout, retry and rate-limit settings for embedding API requests
+ */
+export interface RequestPolicyConfig {
+  /** Timeout per attempt in milliseconds, covering the response body (default: 30000) */
+  timeoutMs?: number;
+
+  /** Retries after network errors, timeouts and 408/409/425/429/5xx responses (default: 3) */
+  maxRetries?: number;
+
+  /** First backoff in milliseconds, doubled per retry with full jitter (default: 500) */
+  initialBackoffMs?: number;
+
+  /** Cap on backoff and Retry-After delays in milliseconds (default: 30000) */
+  maxBackoffMs?: number;
+
+  /** Optional: Client-side limit on requests per minute */
+  requestsPerMinute?: number;
+
+  /** Optional: Client-side limit on input tokens per minute (estimated at 4 characters per token) */
+  tokensPerMinute?: number;
 }
 
 /**
@@ -128,19 +288,275 @@ export interface LocalEmbeddingConfig {
   
   /** Optional: Quantization level (defaults to true for faster inference) */
   quantized?: boolean;
+
+  /** Optional: Per-role prefix templates (defaults to the model family's convention, e.g. e5 and nomic) */
+  rolePrefixes?: RolePrefixes;
+
+  /** Optional: Texts per padded inference batch (defaults to 32) */
+  batchSize?: number;
+
+  /** Optional: Run inference in a pool of worker threads so it never blocks the event loop */
+  workerPool?: WorkerPoolConfig;
+}
+
+/**
+ * Embedding provider configuration for an Ollama server
+ */
+export interface OllamaEmbeddingConfig {
+  /** Provider to use */
+  provider: 'ollama';
+
+  /** Optional: Pulled embedding model (defaults to 'nomic-embed-text') */
+  model?: string;
+
+  /** Optional: Server URL (defaults to 'http://localhost:11434') */
+  baseURL?: string;
+
+  /** Optional: Output dimensions, for models that can shorten their embeddings */
+  dimensions?: number;
+
+  /** Optional: Texts per request (defaults to 32) */
+  batchSize?: number;
+
+  /** Optional: How long Ollama keeps the model loaded after a request, e.g. '10m' or -1 for always */
+  keepAlive?: string | number;
+
+  /** Optional: Per-role prefix templates (defaults to the model family's convention, e.g. e5 and nomic) */
+  rolePrefixes?: RolePrefixes;
+
+  /** Optional: Timeouts, retries and rate limits, or a RequestPolicy shared with other providers */
+  requestPolicy?: RequestPolicyConfig | RequestPolicy;
+}
+
+/**
+ * Embedding provider configuration for any JSON-over-HTTP embedding server
+ * (e.g. text-embeddings-inference, llama.cpp, vLLM, LocalAI)
+ */
+export interface HTTPEmbeddingConfig {
+  /** Provider to use */
+  provider: 'http';
+
+  /** Server URL, e.g. 'http://localhost:8080' */
+  baseURL: string;
+
+  /** Optional: Endpoint path appended to baseURL (defaults to '/embeddings') */
+  path?: string;
+
+  /** Optional: Model name, sent through the {model} placeholder and part of embedding store keys (defaults to 'default') */
+  model?: string;
+
+  /** Optional: Extra request headers, e.g. Authorization */
+  headers?: Record<string, string>;
+
+  /**
+   * Optional: JSON request body (defaults to { model: '{model}', input: '{input}' })
+   * String values equal to '{input}', '{model}' or '{role}' are replaced by the
+   * array of texts, the model name and 'query' or 'document'.
+   */
+  bodyTemplate?: Record<string, unknown>;
+
+  /**
+   * Optional: Where the embeddings are in the response JSON (defaults to 'data.*.embedding')
+   * Dot-separated keys; '*' maps over an array. An empty path is the response itself.
+   */
+  responsePath?: string;
+
+  /** Optional: Texts per request (defaults to 32) */
+  batchSize?: number;
+
+  /** Optional: Per-role prefix templates */
+  rolePrefixes?: RolePrefixes;
+
+  /** Optional: Timeouts, retries and rate limits, or a RequestPolicy shared with other providers */
+  requestPolicy?: RequestPolicyConfig | RequestPolicy;
+}
+
+/**
+ * Worker thread pool for local embedding inference
+ */
+export interface WorkerPoolConfig {
+  /** Number of worker threads, each loading its own copy of the model (default: CPU count - 1, at least 1) */
+  size?: number;
+
+  /** Requests that may wait for a free worker; further requests are rejected (default: 100) */
+  maxQueueSize?: number;
+
+  /** Texts sent to a worker per request (default: the provider's batchSize) */
+  batchSize?: number;
+}
+
+/**
+ * Embedding provider configuration for the offline feature-hashing provider
+ * Deterministic and dependency-free; meant for tests, CI and demos.
+ */
+export interface HashEmbeddingConfig {
+  /** Provider to use */
+  provider: 'hash';
+
+  /** Optional: Embedding dimensions (defaults to 1024) */
+  dimensions?: number;
+
+  /** Optional: Per-role prefix templates */
+  rolePrefixes?: RolePrefixes;
+}
+
+/**
+ * Configuration for a provider added with registerEmbeddingProvider()
+ */
+export interface CustomEmbeddingConfig {
+  /** Provider to use */
+  provider: 'custom';
+
+  /** Name the factory was registered under */
+  factory: string;
+
+  /** Provider-specific options, passed through to the factory */
+  [option: string]: unknown;
+}
+
+/**
+ * Chain of embedding providers tried in order
+ * Each provider gets a circuit breaker, and MCPToolFilter keeps a separate
+ * tool embedding set per provider because their vector spaces differ.
+ */
+export interface FallbackEmbeddingConfig {
+  /** Provider to use */
+  provider: 'fallback';
+
+  /** Providers in order of preference: configs or provider instances */
+  providers: Array<EmbeddingConfig | CustomEmbeddingConfig | EmbeddingProvider>;
+
+  /** Optional: Consecutive failures that open a provider's circuit (defaults to 3) */
+  failureThreshold?: number;
+
+  /** Optional: How long an open circuit skips its provider before probing it again, in ms (defaults to 30000) */
+  cooldownMs?: number;
 }
 
 /**
  * Union type for all embedding configurations
  */
-export type EmbeddingConfig = APIEmbeddingConfig | LocalEmbeddingConfig;
+export type EmbeddingConfig =
+  | APIEmbeddingConfig
+  | LocalEmbeddingConfig
+  | OllamaEmbeddingConfig
+  | HTTPEmbeddingConfig
+  | HashEmbeddingConfig;
+
+/**
+ * Hybrid lexical + semantic scoring configuration
+ * Tool names, descriptions, keywords, category and parameter names are
+ * indexed with BM25 and fused with the cosine similarity.
+ */
+export interface HybridSearchConfig {
+  /**
+   * How to combine scores (default: 'weighted')
+   * - 'weighted': (1 - lexicalWeight) * cosine + lexicalWeight * BM25 normalized to the best match
+   * - 'rrf': reciprocal rank fusion of both rankings, scaled so rank 1 in both scores 1
+   */
+  fusion?: 'weighted' | 'rrf';
+
+  /** Weight of the lexical score in weighted fusion, 0-1 (default: 0.3) */
+  lexicalWeight?: number;
+
+  /** Rank constant for reciprocal rank fusion (default: 60) */
+  rrfK?: number;
+
+  /** BM25 term frequency saturation (default: 1.2) */
+  k1?: number;
+
+  /** BM25 document length normalization (default: 0.75) */
+  b?: number;
+}
+
+/**
+ * Hierarchical (two-stage) filtering configuration
+ * Servers are embedded from their name, description, categories and tool
+ * names, averaged with the centroid of their tool embeddings. filter() first
+ * picks the best-matching servers, then scores only their tools.
+ */
+export interface HierarchicalFilterConfig {
+  /** Number of servers whose tools are scored (default: 3) */
+  topServers?: number;
+
+  /** Score all tools when the best server scores below this (default: 0.2) */
+  minServerScore?: number;
+}
+
+/**
+ * Approximate nearest neighbor search configuration
+ * Tool embeddings are indexed in an HNSW graph, and filter() scores only the
+ * graph's nearest candidates instead of every tool once the catalog is large.
+ */
+export interface ANNConfig {
+  /** Graph links per node; higher improves recall at the cost of memory (default: 16) */
+  M?: number;
+
+  /** Search breadth while building the graph (default: 100) */
+  efConstruction?: number;
+
+  /** Search breadth per query; higher improves recall at the cost of latency (default: 50) */
+  efSearch?: number;
+
+  /** Catalogs smaller than this use exact search (default: 2000) */
+  exactSearchThreshold?: number;
+}
+
+/**
+ * Quantized tool embedding configuration
+ * filter() scores all tools against quantized vectors first, then rescores
+ * the best candidates against full-precision vectors.
+ */
+export interface QuantizationConfig {
+  /** 'int8' (per-vector scale, 4x smaller) or 'binary' (1-bit sign codes, 32x smaller) */
+  type: QuantizationType;
+
+  /** Candidates rescored at full precision (default: max(4 * topK, 50)) */
+  rescoreCandidates?: number;
+
+  /**
+   * Keep full-precision vectors in memory (default: true)
+   * When false, only quantized vectors stay in memory and rescoring reads
+   * full-precision vectors from the embeddingStore, which is then required.
+   */
+  keepFullPrecision?: boolean;
+
+  /**
+   * Also score every Nth query exactly to measure recall (default: 50, 0 disables)
+   * Without keepFullPrecision, a sample is skipped if the embedding store is missing any tool's vector.
+   */
+  recallSampleInterval?: number;
+}
+
+/**
+ * How filter() answers when the context cannot be embedded
+ * - lastResult: the last successful result of the same session
+ * - lexical: alwaysInclude tools plus a BM25 keyword ranking of the context
+ * - defaultTools: alwaysInclude tools plus DegradationConfig.defaultTools
+ */
+export type DegradationStrategy = 'lastResult' | 'lexical' | 'defaultTools';
+
+/**
+ * Graceful degradation when the context embedding call fails
+ * Instead of rejecting, filter() returns a result marked as degraded.
+ */
+export interface DegradationConfig {
+  /** Strategies tried in order until one returns tools (default: ['lastResult', 'lexical']) */
+  strategies?: DegradationStrategy[];
+
+  /** Tool names returned by the defaultTools strategy */
+  defaultTools?: string[];
+
+  /** Sessions whose last result is remembered (default: 1000); requests without a sessionId are not */
+  maxSessions?: number;
+}
 
 /**
  * Library configuration
  */
 export interface MCPToolFilterConfig {
-  /** Embedding provider configuration */
-  embedding: EmbeddingConfig;
+  /** Embedding provider configuration, or a ready-made provider instance */
+  embedding: EmbeddingConfig | FallbackEmbeddingConfig | CustomEmbeddingConfig | EmbeddingProvider;
   
   /** Default filter options */
   defaultOptions?: FilterOptions;
@@ -150,6 +566,32 @@ export interface MCPToolFilterConfig {
   
   /** Include server description in tool embeddings for additional context (default: false) */
   includeServerDescription?: boolean;
+
+  /** Optional: Shared embedding cache checked before calling the embedding provider */
+  embeddingStore?: EmbeddingStore;
+
+  /** Optional: Enable hybrid BM25 + embedding scoring */
+  hybridSearch?: HybridSearchConfig;
+
+  /** Optional: Enable hierarchical filtering (servers first, then their tools) */
+  hierarchical?: HierarchicalFilterConfig;
+
+  /** Optional: Enable approximate nearest neighbor search for large catalogs */
+  ann?: ANNConfig;
+
+  /** Optional: Store tool embeddings quantized and rescore the best candidates */
+  quantization?: QuantizationConfig;
+
+  /** Optional: Return a degraded result instead of failing when the context cannot be embedded */
+  degradation?: DegradationConfig;
+
+  /**
+   * Optional: Tokenizer of the embedding model
+   * maxContextTokens then counts real tokens instead of 4-character estimates, and
+   * context and tool texts are cut to the tokenizer's maxInputTokens, less the
+   * provider's role prefix, before embedding.
+   */
+  tokenizer?: Tokenizer;
 }
 
 /**
@@ -172,5 +614,82 @@ export interface FilterResult {
     
     /** Total number of tools evaluated */
     toolsEvaluated: number;
+
+    /** Servers whose tools were scored (hierarchical mode only) */
+    serversSelected?: string[];
+
+    /** Tools skipped because their server was not selected (hierarchical mode only) */
+    toolsSkipped?: number;
+
+    /** True when server confidence was too low and all tools were scored (hierarchical mode only) */
+    fullScanFallback?: boolean;
+
+    /** True when candidates came from the ANN index or quantized vectors rather than an exact scan (ann or quantization only) */
+    approximate?: boolean;
+
+    /** Position in the fallback chain of the provider that embedded the context (fallback provider only) */
+    providerIndex?: number;
+
+    /** How the recent messages were matched against tools (absent from degraded results) */
+    contextMode?: ContextMode;
   };
+
+  /** True when the context could not be embedded and a degradation strategy chose the tools */
+  degraded?: boolean;
+
+  /** How and why the result was degraded (only when degraded) */
+  degradation?: {
+    /** Strategy that produced the tools, or 'none' when no strategy returned any */
+    strategy: DegradationStrategy | 'none';
+
+    /** Error thrown while embedding the context */
+    cause: Error;
+  };
+}
+
+/**
+ * Serialized tool entry in an index snapshot
+ */
+export interface IndexSnapshotTool {
+  serverId: string;
+  serverName: string;
+  tool: MCPTool;
+
+  /** Text that was embedded for this tool */
+  description: string;
+
+  /** SHA-256 of the description, used to detect changed tools on import */
+  descriptionHash: string;
+
+  /** Normalized embedding as base64-encoded float32 bytes */
+  embedding: string;
+}
+
+/**
+ * Precomputed tool index, produced by exportIndex() and consumed by importIndex()
+ */
+export interface IndexSnapshot {
+  /** Snapshot format version */
+  version: number;
+
+  /** Embedding provider that produced the vectors */
+  provider: string;
+
+  /** Embedding model that produced the vectors */
+  model: string;
+
+  /** Embedding dimensions */
+  dimensions: number;
+
+  /** ISO timestamp of when the snapshot was created */
+  createdAt: string;
+
+  /** Servers the index was built from */
+  servers: MCPServer[];
+
+  /** Tool entries with their embeddings */
+  tools: IndexSnapshotTool[];
+
+  /** HNSW graph, present when the filter was configured with ann */
+  ann?: SerializedHNSWIndex;
 }
@@ -0,0 +1,235 @@
+/**
+ * Tests for context building and truncation
+ */
+
+import { ChatMessage } from '../src';
+import {
+  buildContextMessages,
+  buildContextString,
+  getRecentToolCalls,
+  truncateToLastTokens,
+  truncateToTokens,
+} from '../src/utils';
+
+const words = (word: string, count: number) => Array.from({ length: count }, () => word).join(' ');
+
+// A long multi-turn conversation whose newest user turn comes last
+const conversation: ChatMessage[] = [
+  { role: 'system', content: 'You are a helpful assistant.' },
+  { role: 'user', content: `Summarize this report: ${words('revenue', 200)}` },
+  { role: 'assistant', content: `Here is the summary: ${words('growth', 150)}` },
+  { role: 'user', content: 'Now email the summary to the finance team.' },
+];
+
+describe('truncateToLastTokens', () => {
+  test('should keep the end of the text at a word boundary', () => {
+    const text = 'alpha beta gamma delta epsilon';
+
+    expect(truncateToLastTokens(text, 4)).toBe('...delta epsilon');
+    expect(truncateToTokens(text, 4)).toBe('alpha beta gamma...');
+    expect(truncateToLastTokens(text, 10)).toBe(text);
+  });
+});
+
+describe('buildContextString', () => {
+  test('should cut off the newest turn with head truncation', () => {
+    const context = buildContextString(conversation, 3, 100);
+
+    expect(context.startsWith('User: Summarize this report')).toBe(true);
+    expect(context).not.toContain('finance team');
+    expect(context).not.toContain('helpful assistant');
+  });
+
+  test('should keep the newest turn with tail truncation', () => {
+    const context = buildContextString(conversation, 3, 100, 'tail');
+
+    expect(context.endsWith('User: Now email the summary to the finance team.')).toBe(true);
+    expect(context.startsWith('...growth')).toBe(true);
+    expect(context.length).toBeLessThanOrEqual(403);
+  });
+
+  test('should keep the last user message whole and fill backward', () => {
+    const context = buildContextString(conversation, 3, 100, 'lastUserMessage');
+    const parts = context.split('\n\n');
+
+    expect(parts).toHaveLength(2);
+    expect(parts[0].startsWith('...growth')).toBe(true);
+    expect(parts[1]).toBe('User: Now email the summary to the finance team.');
+    expect(context.length).toBeLessThanOrEqual(403);
+  });
+
+  test('should keep earlier messages whole when they fit', () => {
+    const messages: ChatMessage[] = [
+      { role: 'user', content: 'Find flights to Paris' },
+      { role: 'assistant', content: 'Which dates?' },
+      { role: 'user', content: `Next Friday, and ${words('please', 30)}` },
+    ];
+
+    const context = buildContextString(messages, 3, 100, 'lastUserMessage');
+
+    expect(context).toBe(messages.map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`).join('\n\n'));
+  });
+
+  test('should leave out a message when too little budget remains for it', () => {
+    const messages: ChatMessage[] = [
+      { role: 'assistant', content: words('earlier', 50) },
+      { role: 'user', content: words('latest', 55) },
+    ];
+
+    const context = buildContextString(messages, 3, 100, 'lastUserMessage');
+
+    expect(context).toBe(`User: ${words('latest', 55)}`);
+  });
+
+  test('should truncate a last user message that exceeds the budget on its own', () => {
+    const messages: ChatMessage[] = [
+      { role: 'assistant', content: 'Hello!' },
+      { role: 'user', content: words('question', 100) },
+    ];
+
+    const context = buildContextString(messages, 3, 50, 'lastUserMessage');
+
+    expect(context.startsWith('User: question')).toBe(true);
+    expect(context.endsWith('...')).toBe(true);
+    expect(context).not.toContain('Hello');
+  });
+
+  test('should give every message a share of the budget', () => {
+    const context = buildContextString(conversation, 3, 100, 'perMessage');
+    const parts = context.split('\n\n');
+
+    expect(parts).toHaveLength(3);
+    expect(parts[0].startsWith('User: Summarize this report')).toBe(true);
+    expect(parts[1].startsWith('Assistant: Here is the summary')).toBe(true);
+    // The short message stays whole and its unused share goes to the long ones
+    expect(parts[2]).toBe('User: Now email the summary to the finance team.');
+    expect(parts[0].length).toBeGreaterThan(150);
+    expect(context.length).toBeLessThanOrEqual(406);
+  });
+
+  test('should keep the end of a raw string with tail truncation', () => {
+    const input = `${words('background', 100)} what is the weather in Paris`;
+
+    expect(buildContextString(input, 3, 20, 'tail').endsWith('weather in Paris')).toBe(true);
+    expect(buildContextString(input, 3, 20, 'head').startsWith('background')).toBe(true);
+  });
+});
+
+describe('buildContextMessages', () => {
+  test('should cut each recent message to the budget on its own', () => {
+    const messages = buildContextMessages(conversation, 3, 20, 'tail');
+
+    expect(messages.map(m => m.role)).toEqual(['user', 'assistant', 'user']);
+    expect(messages[0].text.startsWith('...revenue')).toBe(true);
+    expect(messages[1].text.startsWith('...growth')).toBe(true);
+    expect(messages[2].text).toBe('User: Now email the summary to the finance team.');
+    messages.forEach(m => expect(m.text.length).toBeLessThanOrEqual(83));
+  });
+
+  test('should treat a raw string as one user message', () => {
+    expect(buildContextMessages('find my invoices')).toEqual([{ role: 'user', text: 'find my invoices' }]);
+  });
+});
+
+describe('tool calls and tool results', () => {
+  const emails = Array.from({ length: 40 }, (_, i) => ({ id: i, subject: `Invoice ${i}`, from: 'bob@example.com' }));
+  const messages: ChatMessage[] = [
+    { role: 'user', content: 'Find the invoices Bob sent me' },
+    {
+      role: 'assistant',
+      content: null,
+      tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'email_search', arguments: '{"from":"bob"}' } }],
+    },
+    { role: 'tool', tool_call_id: 'call_1', content: JSON.stringify(emails) },
+    { role: 'user', content: 'Reply to the newest one' },
+  ];
+
+  test('should label tool calls and summarize large JSON results', () => {
+    const context = buildContextString(messages, 4, 500);
+
+    expect(context.split('\n\n')).toEqual([
+      'User: Find the invoices Bob sent me',
+      'Assistant called email_search',
+      'Tool result (email_search): JSON array of 40 items with keys id, subject, from',
+      'User: Reply to the newest one',
+    ]);
+  });
+
+  test('should keep small results whole and cut long text results', () => {
+    const small: ChatMessage = { role: 'tool', name: 'weather', content: '{"temp": 21}' };
+    const long: ChatMessage = { role: 'tool', content: words('sunny', 100) };
+
+    expect(buildContextString([small], 1, 500)).toBe('Tool result (weather): {"temp": 21}');
+    // "Tool result: ", then at most 10 tokens (40 characters) and "..."
+    expect(buildContextString([long], 1, 500, 'head', undefined, 10).length).toBeLessThanOrEqual(13 + 43);
+  });
+
+  test('should drop tool results without using up the message window', () => {
+    const context = buildContextString(messages, 3, 500, 'head', undefined, 0);
+
+    expect(context).not.toContain('Tool result');
+    expect(context.startsWith('User: Find the invoices')).toBe(true);
+  });
+
+  test('should list the tools called in the recent messages', () => {
+    expect(getRecentToolCalls(messages, 3)).toEqual(['email_search']);
+    // The tool result still names the call when the assistant message is out of the window
+    expect(getRecentToolCalls(messages, 2)).toEqual(['email_search']);
+    expect(getRecentToolCalls(messages, 1)).toEqual([]);
+    expect(getRecentToolCalls('email_search', 3)).toEqual([]);
+  });
+});
+
+describe('content part arrays', () => {
+  test('should extract text and describe attachments', () => {
+    const messages: ChatMessage[] = [{
+      role: 'user',
+      content: [
+        { type: 'text', text: 'What does this chart show?' },
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+        { type: 'file', file: { filename: 'q3-report.pdf', file_data: '...' } },
+      ],
+    }];
+
+    expect(buildContextString(messages)).toBe(
+      'User: What does this chart show?\n[image attached]\n[file attached: q3-report.pdf]'
+    );
+  });
+
+  test('should read Anthropic tool_use and tool_result parts as tool calls and results', () => {
+    const messages: ChatMessage[] = [
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Let me look that up.' },
+          { type: 'tool_use', id: 'toolu_1', name: 'weather_get', input: { city: 'Paris' } },
+        ],
+      },
+      {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: '21°C, sunny' }] }],
+      },
+    ];
+
+    expect(buildContextString(messages).split('\n\n')).toEqual([
+      'Assistant: Let me look that up.\nAssistant called weather_get',
+      'User: Tool result (weather_get): 21°C, sunny',
+    ]);
+    expect(getRecentToolCalls(messages, 1)).toEqual(['weather_get']);
+    // Dropping tool results drops a message made only of them
+    expect(buildContextString(messages, 3, 500, 'head', undefined, 0)).not.toContain('User:');
+  });
+
+  test('should skip malformed and unknown parts', () => {
+    const content = [
+      null,
+      'stray',
+      { type: 'thinking', thinking: 'Private reasoning' },
+      { type: 'refusal', text: 'I cannot help with that.' },
+      { text: 'no type' },
+      { type: 'text', text: 'Hello' },
+    ] as unknown as ChatMessage['content'];
+
+    expect(buildContextString([{ role: 'assistant', content }])).toBe('Assistant: I cannot help with that.\nHello');
+  });
+});
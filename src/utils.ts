@@ -1,4 +1,6 @@
-import { ChatMessage, MCPTool, MCPServer } from './types.js';
+import { createHash } from 'node:crypto';
+import { ChatContentPart, ChatMessage, MCPTool, MCPServer, TruncationStrategy } from './types.js';
+import type { Tokenizer } from './tokenizer.js';
 
 /**
  * Normalize a vector to unit length (for cosine similarity via dot product)
@@ -93,58 +95,486 @@ export function generateToolDescription(tool: MCPTool, serverDescription?: strin
   return parts.join(' | ');
 }
 
+/**
+ * Generate description for a server (used for hierarchical filtering)
+ */
+export function generateServerDescription(server: MCPServer): string {
+  const parts: string[] = [server.name];
+
+  if (server.description) {
+    parts.push(server.description);
+  }
+
+  if (server.categories && server.categories.length > 0) {
+    parts.push(`Categories: ${server.categories.join(', ')}`);
+  }
+
+  if (server.tools.length > 0) {
+    parts.push(`Tools: ${server.tools.map(t => t.name).join(', ')}`);
+  }
+
+  return parts.join(' | ');
+}
+
+const MESSAGE_SEPARATOR = '\n\n';
+
+// Partial messages shorter than this add noise rather than context
+const MIN_PARTIAL_MESSAGE_TOKENS = 10;
+
 /**
  * Build context string from messages or raw string
+ * @param truncation - What to keep when the context exceeds maxTokens (see TruncationStrategy)
+ * @param tokenizer - Counts maxTokens in real tokens instead of 4-character estimates
+ * @param maxToolResultTokens - Budget of each tool result; longer ones are summarized or cut, and 0 drops them
  */
 export function buildContextString(
   input: ChatMessage[] | string,
   maxMessages: number = 3,
-  maxTokens: number = 500
+  maxTokens: number = 500,
+  truncation: TruncationStrategy = 'head',
+  tokenizer?: Tokenizer,
+  maxToolResultTokens: number = 100
 ): string {
+  const measure = getTextMeasure(tokenizer);
+  const budget = measure.units(maxTokens);
+
   // If input is already a string, truncate and return
   if (typeof input === 'string') {
-    return truncateToTokens(input, maxTokens);
+    return truncation === 'tail' ? measure.tail(input, budget) : measure.head(input, budget);
   }
 
-  // Filter out system messages and take last N messages
-  const relevantMessages = input
-    .filter(msg => msg.role !== 'system')
+  const relevantMessages = getRecentMessages(input, maxMessages, maxToolResultTokens > 0);
+  const format = getMessageFormatter(input, measure.units(maxToolResultTokens), measure);
+  const contextParts = relevantMessages.map(format);
+
+  switch (truncation) {
+    case 'tail':
+      return measure.tail(contextParts.join(MESSAGE_SEPARATOR), budget);
+    case 'lastUserMessage':
+      return truncateAroundLastUserMessage(relevantMessages, contextParts, budget, measure);
+    case 'perMessage':
+      return truncatePerMessage(contextParts, budget, measure);
+    default:
+      return measure.head(contextParts.join(MESSAGE_SEPARATOR), budget);
+  }
+}
+
+/**
+ * Build one context text per recent message, for embedding messages separately
+ * Each message is cut to maxTokens on its own: 'tail' truncation keeps its
+ * end, the other strategies its start. A raw string counts as a user message.
+ */
+export function buildContextMessages(
+  input: ChatMessage[] | string,
+  maxMessages: number = 3,
+  maxTokens: number = 500,
+  truncation: TruncationStrategy = 'head',
+  tokenizer?: Tokenizer,
+  maxToolResultTokens: number = 100
+): Array<{ role: ChatMessage['role']; text: string }> {
+  const measure = getTextMeasure(tokenizer);
+  const budget = measure.units(maxTokens);
+  const cut = (text: string) => truncation === 'tail' ? measure.tail(text, budget) : measure.head(text, budget);
+
+  if (typeof input === 'string') {
+    return [{ role: 'user', text: cut(input) }];
+  }
+
+  const format = getMessageFormatter(input, measure.units(maxToolResultTokens), measure);
+  return getRecentMessages(input, maxMessages, maxToolResultTokens > 0)
+    .map(msg => ({ role: msg.role, text: cut(format(msg)) }));
+}
+
+/**
+ * Names of the tools called in the last maxMessages messages, by assistant
+ * tool calls or answered by tool results
+ */
+export function getRecentToolCalls(input: ChatMessage[] | string, maxMessages: number = 3): string[] {
+  if (typeof input === 'string') return [];
+
+  const toolNames = getToolCallNames(input);
+  const called = new Set<string>();
+  for (const msg of getRecentMessages(input, maxMessages, true)) {
+    for (const call of getMessageToolCalls(msg)) {
+      called.add(call.name);
+    }
+    if (msg.role === 'tool') {
+      const name = msg.name ?? toolNames.get(msg.tool_call_id ?? '');
+      if (name !== undefined) called.add(name);
+    }
+    for (const part of getContentParts(msg.content)) {
+      const name = part.type === 'tool_result' ? toolNames.get(String(part.tool_use_id)) : undefined;
+      if (name !== undefined) called.add(name);
+    }
+  }
+  return [...called];
+}
+
+/**
+ * The last maxMessages messages, without system messages
+ * @param keepToolResults - False drops tool results before counting, including
+ *   messages made only of tool_result parts
+ */
+function getRecentMessages(messages: ChatMessage[], maxMessages: number, keepToolResults: boolean): ChatMessage[] {
+  return messages
+    .filter(msg => msg.role !== 'system' && (keepToolResults || !isToolResultMessage(msg)))
     .slice(-maxMessages);
+}
+
+function isToolResultMessage(msg: ChatMessage): boolean {
+  if (msg.role === 'tool') return true;
+  const parts = getContentParts(msg.content);
+  return parts.length > 0 && parts.every(part => part.type === 'tool_result');
+}
+
+/**
+ * Tool calls of a message: OpenAI tool_calls and Anthropic tool_use parts
+ */
+function getMessageToolCalls(msg: ChatMessage): Array<{ id: string; name: string }> {
+  const calls = (msg.tool_calls ?? []).map(call => ({ id: call.id, name: call.function.name }));
+  for (const part of getContentParts(msg.content)) {
+    if (part.type === 'tool_use' && typeof part.name === 'string') {
+      calls.push({ id: String(part.id), name: part.name });
+    }
+  }
+  return calls;
+}
+
+/**
+ * Function names of the tool calls in a conversation, by call id
+ */
+function getToolCallNames(messages: ChatMessage[]): Map<string, string> {
+  const names = new Map<string, string>();
+  for (const msg of messages) {
+    for (const call of getMessageToolCalls(msg)) {
+      names.set(call.id, call.name);
+    }
+  }
+  return names;
+}
+
+/**
+ * The well-formed parts of a content array; anything else has no parts
+ */
+function getContentParts(content: ChatMessage['content']): ChatContentPart[] {
+  if (!Array.isArray(content)) return [];
+  return content.filter((part): part is ChatContentPart =>
+    part !== null && typeof part === 'object' && typeof part.type === 'string');
+}
+
+// Short stand-ins for non-text parts, so tools that handle such input can still match
+const CONTENT_PART_DESCRIPTORS: Record<string, string> = {
+  image_url: 'image attached',
+  image: 'image attached',
+  input_image: 'image attached',
+  input_audio: 'audio attached',
+  audio: 'audio attached',
+  file: 'file attached',
+  input_file: 'file attached',
+  document: 'document attached',
+};
 
-  // Build context string
-  const contextParts = relevantMessages.map(msg => {
+/**
+ * Format messages as context text; tool calls are listed by name, and tool
+ * results are labeled with the tool that produced them
+ * @param toolResultBudget - Longest tool result kept, in the measure's units
+ */
+function getMessageFormatter(
+  messages: ChatMessage[],
+  toolResultBudget: number,
+  measure: TextMeasure
+): (msg: ChatMessage) => string {
+  const toolNames = getToolCallNames(messages);
+
+  const formatToolResult = (name: string | undefined, payload: string): string => {
+    const label = name === undefined ? 'Tool result' : `Tool result (${name})`;
+    return `${label}: ${compactToolResult(payload, toolResultBudget, measure)}`;
+  };
+
+  // Text parts are kept, known non-text parts become descriptors, and unknown parts keep only their text
+  const formatContent = (content: ChatMessage['content'] | undefined): string => {
+    if (typeof content === 'string') return content;
+
+    return getContentParts(content ?? null).map(part => {
+      if (part.type === 'text' || part.type === 'input_text') {
+        return typeof part.text === 'string' ? part.text : '';
+      }
+      if (part.type === 'tool_use') {
+        // Listed with the message's tool calls
+        return '';
+      }
+      if (part.type === 'tool_result') {
+        if (toolResultBudget <= 0) return '';
+        const payload = part.content as ChatMessage['content'] | undefined;
+        return formatToolResult(toolNames.get(String(part.tool_use_id)), formatContent(payload));
+      }
+
+      const descriptor = CONTENT_PART_DESCRIPTORS[part.type];
+      if (descriptor !== undefined) {
+        const name = getPartName(part);
+        return name === undefined ? `[${descriptor}]` : `[${descriptor}: ${name}]`;
+      }
+      return typeof part.text === 'string' ? part.text : '';
+    }).filter(text => text !== '').join('\n');
+  };
+
+  return msg => {
+    if (msg.role === 'tool') {
+      return formatToolResult(msg.name ?? toolNames.get(msg.tool_call_id ?? ''), formatContent(msg.content));
+    }
+
+    const lines: string[] = [];
     const rolePrefix = msg.role === 'user' ? 'User' : 'Assistant';
-    return `${rolePrefix}: ${msg.content}`;
+    const text = formatContent(msg.content);
+    const calls = getMessageToolCalls(msg);
+    if (text !== '' || calls.length === 0) {
+      lines.push(`${rolePrefix}: ${text}`);
+    }
+    if (calls.length > 0) {
+      lines.push(`${rolePrefix} called ${calls.map(call => call.name).join(', ')}`);
+    }
+    return lines.join('\n');
+  };
+}
+
+/**
+ * File name or title of an attachment part (OpenAI file parts, Anthropic documents)
+ */
+function getPartName(part: ChatContentPart): string | undefined {
+  const file = part.file as { filename?: unknown } | undefined;
+  const name = part.filename ?? file?.filename ?? part.title;
+  return typeof name === 'string' && name !== '' ? name : undefined;
+}
+
+/**
+ * Fit a tool result into its budget: JSON is reduced to its shape, other text is cut
+ */
+function compactToolResult(payload: string, budget: number, measure: TextMeasure): string {
+  if (measure.length(payload) <= budget) return payload;
+  return measure.head(summarizeJson(payload) ?? payload, budget);
+}
+
+/**
+ * Shape of a JSON payload, e.g. "JSON array of 42 items with keys id, subject, from"
+ * @returns undefined when the payload is not a JSON object or array
+ */
+function summarizeJson(payload: string): string | undefined {
+  const trimmed = payload.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return undefined;
+
+  let value: unknown;
+  try {
+    value = JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+
+  const keysOf = (item: unknown): string[] =>
+    item !== null && typeof item === 'object' && !Array.isArray(item) ? Object.keys(item) : [];
+
+  if (Array.isArray(value)) {
+    // The first items are enough to show the shape of a list
+    const keys = [...new Set(value.slice(0, 10).flatMap(keysOf))];
+    return `JSON array of ${value.length} items${keys.length > 0 ? ` with keys ${keys.join(', ')}` : ''}`;
+  }
+  return `JSON object with keys ${keysOf(value).join(', ')}`;
+}
+
+/**
+ * Keep the last user message whole, then fill the budget with the other
+ * messages from newest to oldest; the first that does not fit keeps its end
+ */
+function truncateAroundLastUserMessage(
+  messages: ChatMessage[],
+  parts: string[],
+  budget: number,
+  measure: TextMeasure
+): string {
+  if (parts.length === 0) return '';
+
+  let anchor = messages.map(msg => msg.role).lastIndexOf('user');
+  if (anchor === -1) anchor = parts.length - 1;
+
+  const kept: Array<string | undefined> = new Array(parts.length);
+  kept[anchor] = measure.head(parts[anchor], budget);
+  let remaining = budget - measure.length(kept[anchor]!);
+  const separatorLength = measure.length(MESSAGE_SEPARATOR);
+
+  for (let i = parts.length - 1; i >= 0; i--) {
+    if (i === anchor) continue;
+
+    remaining -= separatorLength;
+    const length = measure.length(parts[i]);
+    if (length <= remaining) {
+      kept[i] = parts[i];
+      remaining -= length;
+      continue;
+    }
+    if (remaining >= measure.units(MIN_PARTIAL_MESSAGE_TOKENS)) {
+      kept[i] = measure.tail(parts[i], remaining);
+    }
+    break;
+  }
+
+  return kept.filter(part => part !== undefined).join(MESSAGE_SEPARATOR);
+}
+
+/**
+ * Give every message a share of the budget; short messages stay whole and
+ * leave their unused share to the longer ones
+ */
+function truncatePerMessage(parts: string[], budget: number, measure: TextMeasure): string {
+  const lengths = parts.map(part => measure.length(part));
+  let remaining = Math.max(0, budget - measure.length(MESSAGE_SEPARATOR) * (parts.length - 1));
+  const limits: number[] = new Array(parts.length);
+
+  // Shortest first, so each message's share includes what shorter ones left over
+  const byLength = parts.map((_, i) => i).sort((a, b) => lengths[a] - lengths[b]);
+  byLength.forEach((index, position) => {
+    limits[index] = Math.min(lengths[index], Math.floor(remaining / (parts.length - position)));
+    remaining -= limits[index];
   });
 
-  const context = contextParts.join('\n\n');
-  return truncateToTokens(context, maxTokens);
+  return parts.map((part, i) => measure.head(part, limits[i])).join(MESSAGE_SEPARATOR);
+}
+
+/**
+ * Measures and cuts text in the units of a context budget
+ */
+interface TextMeasure {
+  /** A budget of the given number of tokens, in this measure's units */
+  units(tokens: number): number;
+
+  length(text: string): number;
+
+  /** Keep at most maxUnits from the start of the text */
+  head(text: string, maxUnits: number): string;
+
+  /** Keep at most maxUnits from the end of the text */
+  tail(text: string, maxUnits: number): string;
+}
+
+// Tokens estimated at 4 characters; cuts break at word boundaries and are marked with '...'
+const CHARACTER_MEASURE: TextMeasure = {
+  units: tokens => tokens * 4,
+  length: text => text.length,
+  head: truncateHead,
+  tail: truncateTail,
+};
+
+/**
+ * Exact tokens of a tokenizer; cuts are not marked, so they never exceed the budget
+ * A cut inside a multi-byte character decodes to U+FFFD, which is dropped.
+ */
+function getTextMeasure(tokenizer?: Tokenizer): TextMeasure {
+  if (!tokenizer) return CHARACTER_MEASURE;
+
+  return {
+    units: tokens => tokens,
+    length: text => tokenizer.encode(text).length,
+    head: (text, maxTokens) => {
+      const tokens = tokenizer.encode(text);
+      if (tokens.length <= maxTokens) return text;
+      return tokenizer.decode(tokens.slice(0, Math.max(0, maxTokens))).replace(/\uFFFD+$/, '');
+    },
+    tail: (text, maxTokens) => {
+      const tokens = tokenizer.encode(text);
+      if (tokens.length <= maxTokens) return text;
+      return tokenizer.decode(tokens.slice(tokens.length - Math.max(0, maxTokens))).replace(/^\uFFFD+/, '');
+    },
+  };
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'for', 'from',
+  'has', 'have', 'i', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'our',
+  'please', 'the', 'this', 'that', 'to', 'use', 'was', 'we', 'what', 'when',
+  'with', 'you', 'your',
+]);
+
+/**
+ * Split text into normalized word tokens for lexical matching
+ * Lowercases, splits camelCase/snake_case identifiers, drops stop words and
+ * strips plurals ("emails" → "email", "queries" → "query").
+ */
+export function tokenize(text: string): string[] {
+  const words = text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu) ?? [];
+
+  const tokens: string[] = [];
+  for (const word of words) {
+    if (STOP_WORDS.has(word)) continue;
+    tokens.push(stemWord(word));
+  }
+  return tokens;
+}
+
+/**
+ * Minimal plural stemming
+ */
+function stemWord(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) {
+    return word.slice(0, -3) + 'y';
+  }
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) {
+    return word.slice(0, -1);
+  }
+  return word;
 }
 
 /**
  * Simple token estimation and truncation
- * Uses rough approximation: 1 token ≈ 4 characters
+ * Uses rough approximation: 1 token ≈ 4 characters, unless a tokenizer is given
+ */
+export function truncateToTokens(text: string, maxTokens: number, tokenizer?: Tokenizer): string {
+  const measure = getTextMeasure(tokenizer);
+  return measure.head(text, measure.units(maxTokens));
+}
+
+/**
+ * Like truncateToTokens, but keeps the end of the text
  */
-export function truncateToTokens(text: string, maxTokens: number): string {
-  const estimatedChars = maxTokens * 4;
-  if (text.length <= estimatedChars) {
+export function truncateToLastTokens(text: string, maxTokens: number, tokenizer?: Tokenizer): string {
+  const measure = getTextMeasure(tokenizer);
+  return measure.tail(text, measure.units(maxTokens));
+}
+
+function truncateHead(text: string, maxChars: number): string {
+  if (text.length <= maxChars) {
     return text;
   }
 
   // Truncate and try to break at word boundary
-  let truncated = text.slice(0, estimatedChars);
+  let truncated = text.slice(0, maxChars);
   const lastSpace = truncated.lastIndexOf(' ');
-  if (lastSpace > estimatedChars * 0.8) {
+  if (lastSpace > maxChars * 0.8) {
     truncated = truncated.slice(0, lastSpace);
   }
 
   return truncated + '...';
 }
 
+function truncateTail(text: string, maxChars: number): string {
+  if (text.length <= maxChars) {
+    return text;
+  }
+
+  // Truncate and try to break at word boundary
+  let truncated = text.slice(text.length - maxChars);
+  const firstSpace = truncated.indexOf(' ');
+  if (firstSpace !== -1 && firstSpace < maxChars * 0.2) {
+    truncated = truncated.slice(firstSpace + 1);
+  }
+
+  return '...' + truncated;
+}
+
 /**
  * Min-heap implementation for efficient top-K selection
  */
-class MinHeap<T> {
+export class MinHeap<T> {
   private heap: T[] = [];
   private scoreFunc: (item: T) => number;
 
@@ -273,6 +703,31 @@ export function hashString(str: string): string {
   return hash.toString(36);
 }
 
+/**
+ * SHA-256 hex digest of a string (for content-addressing descriptions)
+ */
+export function sha256(str: string): string {
+  return createHash('sha256').update(str).digest('hex');
+}
+
+/**
+ * Encode a vector as base64 (raw little-endian float32 bytes)
+ */
+export function encodeVector(vec: Float32Array): string {
+  return Buffer.from(vec.buffer, vec.byteOffset, vec.byteLength).toString('base64');
+}
+
+/**
+ * Decode a vector produced by encodeVector
+ */
+export function decodeVector(encoded: string): Float32Array {
+  const bytes = Buffer.from(encoded, 'base64');
+  // Copy into a fresh buffer: Node's pooled Buffers are not guaranteed to be 4-byte aligned
+  const vec = new Float32Array(bytes.length / 4);
+  new Uint8Array(vec.buffer).set(bytes);
+  return vec;
+}
+
 /**
  * Extract all tools from servers with metadata
  */
@@ -375,6 +830,10 @@ export class LRUCache<K, V> {
     return this.cache.has(key);
   }
 
+  values(): IterableIterator<V> {
+    return this.cache.values();
+  }
+
   clear(): void {
     this.cache.clear();
   }
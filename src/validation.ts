@@ -0,0 +1,84 @@
+/**
+ * What an embedding was computed for
+ */
+export type EmbeddingSubject =
+  | { kind: 'tool'; toolKey: string }
+  | { kind: 'server'; serverId: string }
+  | { kind: 'context' };
+
+/**
+ * Why an embedding was rejected
+ * - dimensions: length differs from the provider's dimensions
+ * - non-finite: contains NaN or infinite values
+ * - zero: all components are zero, so it cannot be normalized
+ * - count: the provider returned a different number of embeddings than texts
+ */
+export type EmbeddingValidationReason = 'dimensions' | 'non-finite' | 'zero' | 'count';
+
+/**
+ * Thrown when an embedding provider returns a vector the filter cannot score
+ */
+export class EmbeddingValidationError extends Error {
+  readonly reason: EmbeddingValidationReason;
+  readonly subject: EmbeddingSubject;
+
+  constructor(reason: EmbeddingValidationReason, subject: EmbeddingSubject, message: string) {
+    super(message);
+    this.name = 'EmbeddingValidationError';
+    this.reason = reason;
+    this.subject = subject;
+  }
+}
+
+/**
+ * Check a raw embedding before it is normalized and indexed
+ * @param allowZero - Accept all-zero vectors (they score 0 against everything)
+ */
+export function validateEmbedding(
+  embedding: Float32Array,
+  dimensions: number,
+  subject: EmbeddingSubject,
+  allowZero: boolean = false
+): void {
+  if (embedding.length !== dimensions) {
+    throw new EmbeddingValidationError(
+      'dimensions',
+      subject,
+      `Embedding for ${describeSubject(subject)} has ${embedding.length} dimensions, expected ${dimensions}`
+    );
+  }
+
+  let nonZero = false;
+  for (let i = 0; i < embedding.length; i++) {
+    if (!Number.isFinite(embedding[i])) {
+      throw new EmbeddingValidationError(
+        'non-finite',
+        subject,
+        `Embedding for ${describeSubject(subject)} contains NaN or infinite values`
+      );
+    }
+    nonZero ||= embedding[i] !== 0;
+  }
+
+  if (!nonZero && !allowZero) {
+    throw new EmbeddingValidationError(
+      'zero',
+      subject,
+      `Embedding for ${describeSubject(subject)} is all zeros`
+    );
+  }
+}
+
+/**
+ * Human-readable name of an embedding subject, e.g. tool "github::create_issue"
+ */
+export function describeSubject(subject: EmbeddingSubject): string {
+  switch (subject.kind) {
+    case 'tool':
+      return `tool "${subject.toolKey}"`;
+    case 'server':
+      return `server "${subject.serverId}"`;
+    case 'context':
+      return 'the context';
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Tests for the worker thread pool used by local embeddings
+ */
+
+import { Worker } from 'node:worker_threads';
+import { WorkerPool } from '../src/workerPool';
+
+/**
+ * Worker that doubles numbers after a delay, fails on negative input and
+ * exits on NaN
+ */
+const workerSource = `
+  const { parentPort } = require('node:worker_threads');
+  parentPort.on('message', ({ id, input }) => {
+    if (Number.isNaN(input)) process.exit(3);
+    setTimeout(() => {
+      if (input < 0) {
+        parentPort.postMessage({ id, error: 'negative input' });
+      } else {
+        parentPort.postMessage({ id, output: { value: input * 2, threadId: require('node:worker_threads').threadId } });
+      }
+    }, 20);
+  });
+`;
+
+type Output = { value: number; threadId: number };
+
+const createPool = (size: number, maxQueueSize: number = 10) => new WorkerPool<number, Output>({
+  size,
+  maxQueueSize,
+  createWorker: () => new Worker(workerSource, { eval: true }),
+});
+
+describe('WorkerPool', () => {
+  let pool: WorkerPool<number, Output>;
+
+  afterEach(async () => {
+    await pool.dispose();
+  });
+
+  test('should spread requests over workers', async () => {
+    pool = createPool(2);
+
+    const results = await Promise.all([1, 2, 3, 4].map(n => pool.run(n)));
+
+    expect(results.map(r => r.value)).toEqual([2, 4, 6, 8]);
+    expect(new Set(results.map(r => r.threadId)).size).toBe(2);
+  });
+
+  test('should reject requests once the queue is full', async () => {
+    pool = createPool(1, 1);
+
+    const running = pool.run(1);
+    const queued = pool.run(2);
+    await expect(pool.run(3)).rejects.toThrow('queue is full');
+    expect(pool.getStats()).toEqual({ workers: 1, busy: 1, queued: 1 });
+
+    expect((await running).value).toBe(2);
+    expect((await queued).value).toBe(4);
+  });
+
+  test('should fail only the request whose worker reported an error', async () => {
+    pool = createPool(1);
+
+    const failing = pool.run(-1);
+    const passing = pool.run(5);
+
+    await expect(failing).rejects.toThrow('negative input');
+    expect((await passing).value).toBe(10);
+  });
+
+  test('should replace a worker that exits', async () => {
+    pool = createPool(1);
+
+    await pool.run(1);
+    await expect(pool.run(NaN)).rejects.toThrow('code 3');
+    expect((await pool.run(4)).value).toBe(8);
+    expect(pool.getStats().workers).toBe(1);
+  });
+
+  test('should reject pending requests on dispose', async () => {
+    pool = createPool(1);
+
+    const running = expect(pool.run(1)).rejects.toThrow('disposed');
+    const queued = expect(pool.run(2)).rejects.toThrow('disposed');
+    await pool.dispose();
+
+    await running;
+    await queued;
+    await expect(pool.run(3)).rejects.toThrow('disposed');
+  });
+
+  test('should stop replacing workers that keep crashing', async () => {
+    pool = new WorkerPool<number, Output>({
+      size: 2,
+      maxQueueSize: 10,
+      createWorker: () => new Worker('throw new Error("broken worker")', { eval: true }),
+    });
+
+    await expect(pool.run(1)).rejects.toThrow('broken worker');
+    for (let i = 0; i < 100 && pool.getStats().workers > 0; i++) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    expect(pool.getStats().workers).toBe(0);
+    await expect(pool.run(2)).rejects.toThrow('No worker available');
+  });
+});
@@ -0,0 +1,195 @@
+import type { Worker, TransferListItem } from 'node:worker_threads';
+
+/**
+ * Message sent to a pool worker
+ */
+export interface WorkerRequest<TInput> {
+  id: number;
+  input: TInput;
+}
+
+/**
+ * Message a pool worker answers with
+ */
+export interface WorkerResponse<TOutput> {
+  id: number;
+  output?: TOutput;
+  error?: string;
+}
+
+interface Task<TInput, TOutput> {
+  id: number;
+  input: TInput;
+  transferList?: TransferListItem[];
+  resolve: (output: TOutput) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker<TInput, TOutput> {
+  worker: Worker;
+  task?: Task<TInput, TOutput>;
+}
+
+/**
+ * Fixed-size pool of worker threads with a bounded request queue
+ * Each worker handles one request at a time. Requests wait in the queue for
+ * a free worker; once maxQueueSize requests are waiting, new ones are rejected
+ * so callers can shed load instead of piling up work.
+ * Workers that crash are replaced, failing only the request they were running.
+ * After repeated crashes without any successful response (e.g. a broken
+ * worker script) workers are dropped instead, so the pool cannot respawn forever.
+ */
+export class WorkerPool<TInput, TOutput> {
+  private createWorker: () => Worker;
+  private maxQueueSize: number;
+  private workers: PoolWorker<TInput, TOutput>[] = [];
+  private queue: Task<TInput, TOutput>[] = [];
+  private nextId: number = 0;
+  private disposed: boolean = false;
+  private consecutiveFailures: number = 0;
+  private lastError?: Error;
+  private readonly MAX_CONSECUTIVE_FAILURES = 3;
+
+  constructor(options: { size: number; maxQueueSize: number; createWorker: () => Worker }) {
+    if (!Number.isInteger(options.size) || options.size < 1) {
+      throw new Error(`Worker pool size must be a positive integer, got ${options.size}`);
+    }
+
+    this.createWorker = options.createWorker;
+    this.maxQueueSize = options.maxQueueSize;
+    for (let i = 0; i < options.size; i++) {
+      this.workers.push(this.spawn());
+    }
+  }
+
+  get size(): number {
+    return this.workers.length;
+  }
+
+  /**
+   * Run a request on the next free worker
+   * @param transferList - Buffers to move to the worker instead of copying
+   */
+  run(input: TInput, transferList?: TransferListItem[]): Promise<TOutput> {
+    if (this.disposed) {
+      return Promise.reject(new Error('Worker pool has been disposed'));
+    }
+    if (this.workers.length === 0) {
+      return Promise.reject(new Error(`No worker available: ${this.lastError?.message}`));
+    }
+
+    const idle = this.workers.find(w => w.task === undefined);
+    if (!idle && this.queue.length >= this.maxQueueSize) {
+      return Promise.reject(new Error(`Worker pool queue is full (${this.maxQueueSize} requests waiting)`));
+    }
+
+    return new Promise<TOutput>((resolve, reject) => {
+      const task: Task<TInput, TOutput> = { id: this.nextId++, input, transferList, resolve, reject };
+      if (idle) {
+        this.dispatch(idle, task);
+      } else {
+        this.queue.push(task);
+      }
+    });
+  }
+
+  getStats(): { workers: number; busy: number; queued: number } {
+    return {
+      workers: this.workers.length,
+      busy: this.workers.filter(w => w.task !== undefined).length,
+      queued: this.queue.length,
+    };
+  }
+
+  /**
+   * Terminate all workers, rejecting queued and running requests
+   */
+  async dispose(): Promise<void> {
+    if (this.disposed) return;
+    this.disposed = true;
+
+    const error = new Error('Worker pool has been disposed');
+    for (const task of this.queue.splice(0)) {
+      task.reject(error);
+    }
+
+    await Promise.all(this.workers.map(async poolWorker => {
+      poolWorker.task?.reject(error);
+      poolWorker.task = undefined;
+      await poolWorker.worker.terminate();
+    }));
+  }
+
+  private spawn(): PoolWorker<TInput, TOutput> {
+    const poolWorker: PoolWorker<TInput, TOutput> = { worker: this.createWorker() };
+
+    poolWorker.worker.on('message', (response: WorkerResponse<TOutput>) => {
+      const task = poolWorker.task;
+      if (task === undefined || task.id !== response.id) return;
+
+      poolWorker.task = undefined;
+      this.consecutiveFailures = 0;
+      if (response.error !== undefined) {
+        task.reject(new Error(response.error));
+      } else {
+        task.resolve(response.output as TOutput);
+      }
+      this.next(poolWorker);
+    });
+
+    poolWorker.worker.on('error', error => this.replace(poolWorker, error));
+    poolWorker.worker.on('exit', code => {
+      this.replace(poolWorker, new Error(`Worker exited unexpectedly with code ${code}`));
+    });
+
+    // Idle workers must not keep the process alive
+    poolWorker.worker.unref();
+    return poolWorker;
+  }
+
+  private dispatch(poolWorker: PoolWorker<TInput, TOutput>, task: Task<TInput, TOutput>): void {
+    poolWorker.task = task;
+    poolWorker.worker.ref();
+    const request: WorkerRequest<TInput> = { id: task.id, input: task.input };
+    poolWorker.worker.postMessage(request, task.transferList);
+  }
+
+  private next(poolWorker: PoolWorker<TInput, TOutput>): void {
+    const task = this.queue.shift();
+    if (task) {
+      this.dispatch(poolWorker, task);
+    } else {
+      poolWorker.worker.unref();
+    }
+  }
+
+  /**
+   * Fail the crashed worker's request and start a fresh worker in its place
+   */
+  private replace(poolWorker: PoolWorker<TInput, TOutput>, error: Error): void {
+    if (this.disposed) return;
+
+    const index = this.workers.indexOf(poolWorker);
+    if (index === -1) return;
+
+    poolWorker.task?.reject(error);
+    poolWorker.task = undefined;
+    poolWorker.worker.removeAllListeners();
+    void poolWorker.worker.terminate();
+
+    this.lastError = error;
+    if (++this.consecutiveFailures > this.MAX_CONSECUTIVE_FAILURES) {
+      this.workers.splice(index, 1);
+      if (this.workers.length === 0) {
+        for (const task of this.queue.splice(0)) {
+          task.reject(new Error(`No worker available: ${error.message}`));
+        }
+      }
+      return;
+    }
+
+    const replacement = this.spawn();
+    this.workers[index] = replacement;
+    this.next(replacement);
+  }
+}